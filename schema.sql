@@ -6,7 +6,7 @@ create table if not exists timers (
   id uuid primary key default uuid_generate_v4(),
   user_id uuid references auth.users not null,
   title text not null,
-  type text default 'goal', -- 'goal' or 'stopwatch'
+  type text default 'goal', -- 'goal', 'stopwatch', 'daily' or 'pomodoro'
   total_seconds integer default 0,
   remaining_seconds integer default 0,
   elapsed_seconds integer default 0,
@@ -14,6 +14,15 @@ create table if not exists timers (
   last_tick_at bigint, -- Storing timestamp as bigint
   color text,
   size text,
+  updated_at bigint, -- ms timestamp of the last write, used to order concurrent edits
+  updated_by text, -- device id of the last write, breaks ties on updated_at
+  archived_at bigint, -- ms timestamp of a soft delete; archived timers are kept for history
+  overtime boolean default false, -- goal keeps running past zero (remaining_seconds goes negative)
+  work_days smallint[], -- weekdays (0 = Sunday) a goal is worked on or a daily quota applies; null means every day
+  pomodoro jsonb, -- pomodoro timers: interval lengths and the timer work is credited to
+  phase text, -- pomodoro timers: current interval ('work', 'break' or 'longBreak')
+  cycles integer, -- pomodoro timers: work intervals finished
+  work_from bigint, -- pomodoro timers: ms timestamp work not yet credited started at
   created_at timestamp with time zone default timezone('utc'::text, now()) not null
 );
 
@@ -26,26 +35,193 @@ create table if not exists week_history (
   created_at timestamp with time zone default timezone('utc'::text, now()) not null
 );
 
--- RLS Policies
+-- Rollovers from before the index could archive a week twice; the latest snapshot is kept
+delete from week_history a
+  using week_history b
+  where a.user_id = b.user_id and a.week_start = b.week_start
+    and (a.created_at, a.id) < (b.created_at, b.id);
+
+-- One snapshot per week. Snapshots are written as upserts on (user_id, week_start), so when
+-- two devices archive the same week at the boundary the later write replaces the earlier one
+create unique index if not exists week_history_user_week_idx on week_history (user_id, week_start);
+
+-- Columns added after the initial release
+alter table timers add column if not exists updated_at bigint;
+alter table timers add column if not exists updated_by text;
+alter table timers add column if not exists archived_at bigint;
+alter table timers add column if not exists overtime boolean default false;
+alter table timers add column if not exists work_days smallint[];
+alter table timers add column if not exists pomodoro jsonb;
+alter table timers add column if not exists phase text;
+alter table timers add column if not exists cycles integer;
+alter table timers add column if not exists work_from bigint;
+
+-- Time Entries Table
+create table if not exists time_entries (
+  id uuid primary key default uuid_generate_v4(),
+  user_id uuid references auth.users not null,
+  timer_id uuid references timers on delete cascade not null,
+  started_at bigint not null, -- ms timestamp, same as timers.last_tick_at
+  ended_at bigint, -- null while the session is still running
+  source text default 'live', -- 'live', 'manual' or 'correction'
+  adjust_seconds integer, -- corrections only: signed seconds added to the week's total
+  reason text, -- corrections only: why the time was changed
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+alter table time_entries add column if not exists adjust_seconds integer;
+alter table time_entries add column if not exists reason text;
+
+create index if not exists time_entries_timer_started_idx on time_entries (timer_id, started_at);
+
+-- User Settings Table
+create table if not exists user_settings (
+  user_id uuid primary key references auth.users,
+  week_start_day smallint default 1 not null, -- 0 = Sunday ... 6 = Saturday
+  timezone text, -- IANA name, e.g. 'Europe/Berlin'; null = the browser's timezone
+  rollover_hour smallint default 0 not null, -- hour of the start day the week turns over
+  focus_mode text default 'off' not null, -- 'off', 'all' or 'section': which running timers starting one pauses
+  notifications jsonb, -- what to be notified about: goal reached, milestones, long-running reminder, sound
+  idle_minutes smallint, -- ask about time away longer than this; null = the default, 0 = never
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+alter table user_settings add column if not exists focus_mode text default 'off' not null;
+alter table user_settings add column if not exists notifications jsonb;
+alter table user_settings add column if not exists idle_minutes smallint;
+
+-- Focus mode switch: the timer started and the running ones it pauses, with their sessions,
+-- in one transaction. Each timer is only written if its stored version is older than the
+-- one it carries (as olderVersionFilter in src/lib/sync.ts); if any isn't, nothing is
+-- written and the result is false. Runs with the caller's rights, so RLS applies.
+create or replace function switch_timers(timer_states jsonb, ended_entries jsonb, started_entries jsonb)
+returns boolean
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  s timers;
+begin
+  for s in select * from jsonb_populate_recordset(null::timers, timer_states) loop
+    update timers t set
+      remaining_seconds = s.remaining_seconds,
+      elapsed_seconds = s.elapsed_seconds,
+      is_running = s.is_running,
+      last_tick_at = s.last_tick_at,
+      updated_at = s.updated_at,
+      updated_by = s.updated_by,
+      archived_at = s.archived_at,
+      phase = s.phase,
+      cycles = s.cycles,
+      work_from = s.work_from
+    where t.id = s.id
+      and (t.updated_at is null or t.updated_at < s.updated_at
+        or (t.updated_at = s.updated_at and t.updated_by < s.updated_by));
+    if not found then
+      raise exception 'timer % changed elsewhere', s.id using errcode = 'WT409';
+    end if;
+  end loop;
+
+  -- The earliest end wins, as laterEndFilter does
+  update time_entries e set ended_at = x.ended_at
+  from jsonb_populate_recordset(null::time_entries, ended_entries) x
+  where e.id = x.id and (e.ended_at is null or e.ended_at > x.ended_at);
+
+  insert into time_entries (id, user_id, timer_id, started_at, ended_at, source, adjust_seconds, reason)
+  select id, user_id, timer_id, started_at, ended_at, source, adjust_seconds, reason
+  from jsonb_populate_recordset(null::time_entries, started_entries)
+  on conflict (id) do nothing;
+
+  return true;
+exception
+  when sqlstate 'WT409' then
+    return false;
+end;
+$$;
+
+-- Realtime (cross-device sync). The whole file runs as one transaction on every migration,
+-- so tables that are already published are skipped rather than failing it.
+do $$
+declare
+  t text;
+begin
+  foreach t in array array['timers', 'week_history', 'time_entries'] loop
+    if not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = t
+    ) then
+      execute format('alter publication supabase_realtime add table %I', t);
+    end if;
+  end loop;
+end $$;
+
+-- RLS Policies (dropped first so the file can be run again)
 alter table timers enable row level security;
 alter table week_history enable row level security;
+alter table time_entries enable row level security;
+alter table user_settings enable row level security;
 
 -- Timers Policies
+drop policy if exists "Users can view their own timers" on timers;
 create policy "Users can view their own timers" on timers
   for select using (auth.uid() = user_id);
 
+drop policy if exists "Users can insert their own timers" on timers;
 create policy "Users can insert their own timers" on timers
   for insert with check (auth.uid() = user_id);
 
+drop policy if exists "Users can update their own timers" on timers;
 create policy "Users can update their own timers" on timers
   for update using (auth.uid() = user_id);
 
+drop policy if exists "Users can delete their own timers" on timers;
 create policy "Users can delete their own timers" on timers
   for delete using (auth.uid() = user_id);
 
 -- History Policies
+drop policy if exists "Users can view their own history" on week_history;
 create policy "Users can view their own history" on week_history
   for select using (auth.uid() = user_id);
 
+drop policy if exists "Users can insert their own history" on week_history;
 create policy "Users can insert their own history" on week_history
   for insert with check (auth.uid() = user_id);
+
+drop policy if exists "Users can update their own history" on week_history;
+create policy "Users can update their own history" on week_history
+  for update using (auth.uid() = user_id);
+
+drop policy if exists "Users can delete their own history" on week_history;
+create policy "Users can delete their own history" on week_history
+  for delete using (auth.uid() = user_id);
+
+-- Time Entries Policies
+drop policy if exists "Users can view their own time entries" on time_entries;
+create policy "Users can view their own time entries" on time_entries
+  for select using (auth.uid() = user_id);
+
+drop policy if exists "Users can insert their own time entries" on time_entries;
+create policy "Users can insert their own time entries" on time_entries
+  for insert with check (auth.uid() = user_id);
+
+drop policy if exists "Users can update their own time entries" on time_entries;
+create policy "Users can update their own time entries" on time_entries
+  for update using (auth.uid() = user_id);
+
+drop policy if exists "Users can delete their own time entries" on time_entries;
+create policy "Users can delete their own time entries" on time_entries
+  for delete using (auth.uid() = user_id);
+
+-- User Settings Policies
+drop policy if exists "Users can view their own settings" on user_settings;
+create policy "Users can view their own settings" on user_settings
+  for select using (auth.uid() = user_id);
+
+drop policy if exists "Users can insert their own settings" on user_settings;
+create policy "Users can insert their own settings" on user_settings
+  for insert with check (auth.uid() = user_id);
+
+drop policy if exists "Users can update their own settings" on user_settings;
+create policy "Users can update their own settings" on user_settings
+  for update using (auth.uid() = user_id);
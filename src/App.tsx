@@ -1,24 +1,25 @@
 import { useState } from 'react';
-import { TimerProvider } from './store/TimerContext';
+import { TimerProvider, useTimers } from './store/TimerContext';
 import { AuthProvider, useAuth } from './store/AuthContext';
 import Dashboard from './components/Dashboard';
 import History from './components/History';
+import Analytics from './components/Analytics';
 import Login from './components/Login';
+import Settings from './components/Settings';
+import GuestImportPrompt from './components/GuestImportPrompt';
+import Notifier from './components/Notifier';
+import IdlePrompt from './components/IdlePrompt';
 import './index.css';
 
 const AppContent: React.FC = () => {
-  const { user, loading, signOut } = useAuth();
-  const [view, setView] = useState<'dashboard' | 'history'>('dashboard');
+  const { user, loading, isGuest, signOut, leaveGuestMode } = useAuth();
+  const { pendingWrites, failedWrites, dismissFailedWrites } = useTimers();
+  const [view, setView] = useState<'dashboard' | 'history' | 'analytics' | 'settings'>('dashboard');
 
   if (loading) return <div className="loading">Loading...</div>;
 
-  // Simple auth gate: if not logged in, show login.
-  // Or allow guest mode? User asked for sync/login, so let's enforce or offer login.
-  // Actually, let's offer Login if not logged in, but maybe allow guest use? 
-  // For now, let's keep it simple: Show Dashboard if logged in OR guest (but we haven't built guest toggle).
-  // Let's just show Login if !user for the "Sync" feature, but maybe we want a "Continue as Guest" or just force login for now since user specifically asked for "Setup auth so users can login".
-
-  if (!user) {
+  // Auth gate: signed-in users sync through Supabase, guests keep everything in localStorage.
+  if (!user && !isGuest) {
     return (
       <div className="app-container">
         <header className="app-header">
@@ -36,6 +37,21 @@ const AppContent: React.FC = () => {
       <header className="app-header">
         <h1>WeekTime</h1>
         <div className="header-actions">
+          {pendingWrites > 0 && (
+            <span className="sync-status" title="Saved on this device, waiting to sync">
+              {pendingWrites} pending
+            </span>
+          )}
+          {failedWrites > 0 && (
+            <button
+              type="button"
+              className="sync-status failed"
+              title="The server rejected these changes, so they are only on this device. Reload to see what is saved."
+              onClick={dismissFailedWrites}
+            >
+              {failedWrites} not saved
+            </button>
+          )}
           <nav className="app-nav">
             <button
               className={`nav-btn ${view === 'dashboard' ? 'active' : ''}`}
@@ -49,15 +65,38 @@ const AppContent: React.FC = () => {
             >
               History
             </button>
+            <button
+              className={`nav-btn ${view === 'analytics' ? 'active' : ''}`}
+              onClick={() => setView('analytics')}
+            >
+              Analytics
+            </button>
+            <button
+              className={`nav-btn ${view === 'settings' ? 'active' : ''}`}
+              onClick={() => setView('settings')}
+            >
+              Settings
+            </button>
           </nav>
-          <button onClick={() => signOut()} className="text-btn sign-out-btn">Sign Out</button>
+          {user ? (
+            <button onClick={() => signOut()} className="text-btn sign-out-btn">Sign Out</button>
+          ) : (
+            <button onClick={leaveGuestMode} className="text-btn sign-out-btn">Sign In</button>
+          )}
         </div>
       </header>
 
       <main>
-        {view === 'dashboard' ? <Dashboard /> : <History />}
+        {view === 'dashboard' && <Dashboard />}
+        {view === 'history' && <History />}
+        {view === 'analytics' && <Analytics />}
+        {view === 'settings' && <Settings />}
       </main>
 
+      {user && <GuestImportPrompt />}
+      <Notifier />
+      <IdlePrompt />
+
       <style>{`
         .app-header {
           display: flex;
@@ -72,6 +111,21 @@ const AppContent: React.FC = () => {
             gap: 16px;
         }
 
+        .sync-status {
+            font-size: 0.8rem;
+            color: var(--text-secondary);
+            background: rgba(0,0,0,0.05);
+            padding: 4px 10px;
+            border-radius: 12px;
+            white-space: nowrap;
+        }
+
+        .sync-status.failed {
+            color: var(--accent-red);
+            border: none;
+            cursor: pointer;
+        }
+
         .sign-out-btn {
             background: none;
             border: none;
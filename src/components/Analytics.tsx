@@ -0,0 +1,304 @@
+import React, { useState } from 'react';
+import { useTimers } from '../store/TimerContext';
+import { formatWeekLabel } from '../lib/week';
+import { activityTrends, overallHitRate, recentWeeks, ROLLING_WINDOW } from '../lib/analytics';
+import type { ActivityTrend } from '../lib/analytics';
+
+const RANGES: { label: string; weeks?: number }[] = [
+  { label: '4 weeks', weeks: 4 },
+  { label: '12 weeks', weeks: 12 },
+  { label: '6 months', weeks: 26 },
+  { label: '1 year', weeks: 52 },
+  { label: 'All time' },
+];
+
+const formatHours = (seconds: number) => {
+  const h = seconds / 3600;
+  return h >= 10 ? `${Math.round(h)}h` : `${Math.round(h * 10) / 10}h`;
+};
+
+const formatPercent = (rate: number) => `${Math.round(rate * 100)}%`;
+
+const CHART_HEIGHT = 80;
+
+// Weekly totals as bars, the rolling average as a line and, for goals, the latest goal dashed
+const TrendChart: React.FC<{ trend: ActivityTrend }> = ({ trend }) => {
+  const count = trend.weeks.length;
+  const goal = trend.type !== 'stopwatch' ? [...trend.weeks].reverse().find(p => p)?.totalSeconds : undefined;
+  const max = Math.max(1, goal ?? 0, ...trend.weeks.map(p => p?.completedSeconds ?? 0));
+  const y = (seconds: number) => CHART_HEIGHT - (seconds / max) * CHART_HEIGHT;
+
+  const line = trend.rollingAverage
+    .map((avg, i) => avg !== null ? `${i + 0.5},${y(avg)}` : null)
+    .filter(Boolean)
+    .join(' ');
+
+  return (
+    <svg className="trend-chart" viewBox={`0 0 ${count} ${CHART_HEIGHT}`} preserveAspectRatio="none">
+      {trend.weeks.map((p, i) => p && (
+        <rect
+          key={p.weekStart}
+          x={i + 0.15}
+          width={0.7}
+          y={y(p.completedSeconds)}
+          height={CHART_HEIGHT - y(p.completedSeconds)}
+          fill={trend.color}
+          opacity={0.75}
+        >
+          <title>{formatHours(p.completedSeconds)}</title>
+        </rect>
+      ))}
+      {goal !== undefined && goal > 0 && (
+        <line x1={0} x2={count} y1={y(goal)} y2={y(goal)} className="goal-line" vectorEffect="non-scaling-stroke" />
+      )}
+      {line && <polyline points={line} className="average-line" vectorEffect="non-scaling-stroke" />}
+    </svg>
+  );
+};
+
+const Analytics: React.FC = () => {
+  const { history, settings } = useTimers();
+  const [range, setRange] = useState(1);
+
+  const weeks = recentWeeks(history, RANGES[range].weeks);
+  const trends = activityTrends(weeks);
+  const hitRate = overallHitRate(trends);
+  const totalSeconds = trends.reduce((sum, t) => sum + t.totalSeconds, 0);
+
+  if (history.length === 0) {
+    return (
+      <div className="empty-history">
+        <p>No weeks archived yet. Trends show up once your first week is complete.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="analytics">
+      <div className="analytics-toolbar">
+        <div className="toggle-bg range-selector">
+          {RANGES.map((r, i) => (
+            <button key={r.label} className={range === i ? 'active' : ''} onClick={() => setRange(i)}>
+              {r.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="analytics-summary">
+        <div className="summary-stat">
+          <span className="stat-value">{weeks.length}</span>
+          <span className="stat-label">{weeks.length === 1 ? 'week' : 'weeks'}</span>
+        </div>
+        <div className="summary-stat">
+          <span className="stat-value">{formatHours(totalSeconds)}</span>
+          <span className="stat-label">tracked</span>
+        </div>
+        <div className="summary-stat">
+          <span className="stat-value">{formatHours(weeks.length > 0 ? totalSeconds / weeks.length : 0)}</span>
+          <span className="stat-label">per week</span>
+        </div>
+        {hitRate !== undefined && (
+          <div className="summary-stat">
+            <span className="stat-value">{formatPercent(hitRate)}</span>
+            <span className="stat-label">goals hit</span>
+          </div>
+        )}
+      </div>
+
+      <div className="trend-list">
+        {trends.map(trend => (
+          <div key={trend.key} className="trend-card">
+            <div className="trend-header">
+              <div className="color-dot" style={{ backgroundColor: trend.color }} />
+              <h3>{trend.title}</h3>
+            </div>
+
+            <TrendChart trend={trend} />
+            <div className="trend-axis">
+              <span>{formatWeekLabel(weeks[0].weekStart, settings)}</span>
+              <span>{formatWeekLabel(weeks[weeks.length - 1].weekStart, settings)}</span>
+            </div>
+
+            <div className="trend-stats">
+              <div>
+                <span className="stat-label">Average</span>
+                <span>{formatHours(trend.averageSeconds)}/wk</span>
+              </div>
+              {trend.hitRate !== undefined && (
+                <div>
+                  <span className="stat-label">Goal hit</span>
+                  <span>{formatPercent(trend.hitRate)}</span>
+                </div>
+              )}
+              {trend.best && (
+                <div>
+                  <span className="stat-label">Best</span>
+                  <span>{formatHours(trend.best.completedSeconds)} · {formatWeekLabel(trend.best.weekStart, settings)}</span>
+                </div>
+              )}
+              {trend.worst && (
+                <div>
+                  <span className="stat-label">Worst</span>
+                  <span>{formatHours(trend.worst.completedSeconds)} · {formatWeekLabel(trend.worst.weekStart, settings)}</span>
+                </div>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <p className="analytics-note">Line: {ROLLING_WINDOW}-week rolling average. Dashed: current goal.</p>
+
+      <style>{`
+        .empty-history {
+          text-align: center;
+          padding: 40px;
+          color: var(--text-secondary);
+        }
+
+        .analytics {
+          padding-bottom: 40px;
+        }
+
+        .analytics-toolbar {
+          margin-bottom: 20px;
+        }
+
+        .toggle-bg {
+          background: rgba(0,0,0,0.05);
+          padding: 4px;
+          border-radius: var(--radius-md);
+          display: flex;
+        }
+
+        .toggle-bg button {
+          flex: 1;
+          border: none;
+          background: none;
+          padding: 8px;
+          border-radius: var(--radius-sm);
+          cursor: pointer;
+          font-weight: 500;
+          color: var(--text-secondary);
+          transition: all 0.2s;
+        }
+
+        .toggle-bg button.active {
+          background: var(--card-bg);
+          color: var(--text-primary);
+          box-shadow: 0 1px 3px rgba(0,0,0,0.1);
+        }
+
+        .range-selector button {
+          white-space: nowrap;
+        }
+
+        .analytics-summary {
+          display: grid;
+          grid-template-columns: repeat(auto-fit, minmax(120px, 1fr));
+          gap: 12px;
+          margin-bottom: 20px;
+        }
+
+        .summary-stat {
+          background: var(--card-bg);
+          border-radius: var(--radius-lg);
+          padding: 16px;
+          box-shadow: var(--shadow-sm);
+          display: flex;
+          flex-direction: column;
+        }
+
+        .stat-value {
+          font-size: 1.5rem;
+          font-weight: 700;
+          font-variant-numeric: tabular-nums;
+        }
+
+        .stat-label {
+          font-size: 0.8rem;
+          color: var(--text-secondary);
+        }
+
+        .trend-list {
+          display: grid;
+          grid-template-columns: repeat(auto-fill, minmax(300px, 1fr));
+          gap: 16px;
+        }
+
+        .trend-card {
+          background: var(--card-bg);
+          border-radius: var(--radius-lg);
+          padding: 20px;
+          box-shadow: var(--shadow-sm);
+        }
+
+        .trend-header {
+          display: flex;
+          align-items: center;
+          gap: 10px;
+          margin-bottom: 12px;
+        }
+
+        .trend-header h3 {
+          font-size: 1.05rem;
+          margin: 0;
+        }
+
+        .trend-header .color-dot {
+          width: 12px;
+          height: 12px;
+          border-radius: 50%;
+        }
+
+        .trend-chart {
+          width: 100%;
+          height: 80px;
+          display: block;
+        }
+
+        .trend-chart .average-line {
+          fill: none;
+          stroke: var(--text-primary);
+          stroke-width: 1.5;
+        }
+
+        .trend-chart .goal-line {
+          stroke: var(--text-secondary);
+          stroke-width: 1;
+          stroke-dasharray: 4 3;
+        }
+
+        .trend-axis {
+          display: flex;
+          justify-content: space-between;
+          font-size: 0.7rem;
+          color: var(--text-secondary);
+          margin: 4px 0 12px;
+        }
+
+        .trend-stats {
+          display: grid;
+          grid-template-columns: 1fr 1fr;
+          gap: 8px 16px;
+          font-size: 0.9rem;
+          font-variant-numeric: tabular-nums;
+        }
+
+        .trend-stats div {
+          display: flex;
+          flex-direction: column;
+        }
+
+        .analytics-note {
+          margin-top: 16px;
+          font-size: 0.8rem;
+          color: var(--text-secondary);
+        }
+      `}</style>
+    </div>
+  );
+};
+
+export default Analytics;
@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { useTimers } from '../store/TimerContext';
+
+// Timers deleted from the dashboard. They keep counting in History for the weeks they
+// were used; deleting one here removes it and its sessions for good.
+const ArchivedTimers: React.FC = () => {
+  const { archivedTimers, restoreTimer, deleteTimer } = useTimers();
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (archivedTimers.length === 0) return null;
+
+  const handleDelete = (id: string, title: string) => {
+    if (window.confirm(`Delete "${title}" permanently? Its tracked sessions are removed too. Past weeks in History keep their totals.`)) {
+      deleteTimer(id);
+    }
+  };
+
+  return (
+    <section className="archived-section">
+      <button className="archived-toggle" onClick={() => setIsOpen(!isOpen)}>
+        {isOpen ? '▾' : '▸'} Archived timers ({archivedTimers.length})
+      </button>
+
+      {isOpen && (
+        <div className="archived-list">
+          {archivedTimers.map(timer => (
+            <div key={timer.id} className="archived-item">
+              <div className="archived-info">
+                <div className="color-dot" style={{ backgroundColor: timer.color }} />
+                <span className="archived-title">{timer.title}</span>
+                {timer.archivedAt && (
+                  <span className="archived-date">
+                    archived {new Date(timer.archivedAt).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+                  </span>
+                )}
+              </div>
+              <div className="archived-actions">
+                <button onClick={() => restoreTimer(timer.id)}>Restore</button>
+                <button className="hard-delete" onClick={() => handleDelete(timer.id, timer.title)}>
+                  Delete forever
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <style>{`
+        .archived-section {
+          margin-top: 32px;
+        }
+
+        .archived-toggle {
+          background: none;
+          border: none;
+          color: var(--text-secondary);
+          font-size: 0.95rem;
+          font-weight: 500;
+          cursor: pointer;
+          padding: 4px 0;
+        }
+
+        .archived-list {
+          margin-top: 12px;
+          background: var(--card-bg);
+          border-radius: var(--radius-lg);
+          padding: 8px 16px;
+          box-shadow: var(--shadow-sm);
+        }
+
+        .archived-item {
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+          gap: 12px;
+          padding: 10px 0;
+        }
+
+        .archived-item + .archived-item {
+          border-top: 1px solid rgba(0,0,0,0.05);
+        }
+
+        .archived-info {
+          display: flex;
+          align-items: center;
+          gap: 10px;
+          min-width: 0;
+        }
+
+        .archived-info .color-dot {
+          width: 12px;
+          height: 12px;
+          border-radius: 50%;
+          flex-shrink: 0;
+        }
+
+        .archived-title {
+          font-weight: 500;
+          overflow: hidden;
+          text-overflow: ellipsis;
+          white-space: nowrap;
+        }
+
+        .archived-date {
+          font-size: 0.8rem;
+          color: var(--text-secondary);
+          white-space: nowrap;
+        }
+
+        .archived-actions {
+          display: flex;
+          gap: 8px;
+          flex-shrink: 0;
+        }
+
+        .archived-actions button {
+          background: var(--bg-color);
+          border: none;
+          padding: 6px 12px;
+          border-radius: var(--radius-md);
+          font-size: 0.85rem;
+          font-weight: 500;
+          color: var(--accent-blue);
+          cursor: pointer;
+        }
+
+        .archived-actions button.hard-delete {
+          color: var(--accent-red);
+        }
+      `}</style>
+    </section>
+  );
+};
+
+export default ArchivedTimers;
@@ -2,12 +2,21 @@ import React, { useState } from 'react';
 import { useTimers } from '../store/TimerContext';
 import TimerCard from './TimerCard';
 import ManualTimeModal from './ManualTimeModal';
-import type { TimerSize, TimerType } from '../types';
+import EditTimerModal from './EditTimerModal';
+import ArchivedTimers from './ArchivedTimers';
+import UndoToast from './UndoToast';
+import WorkDaysPicker from './WorkDaysPicker';
+import PomodoroFields from './PomodoroFields';
+import { ALL_DAYS } from '../lib/pacing';
+import { DEFAULT_POMODORO, isCompletePomodoro } from '../lib/pomodoro';
+import type { PomodoroConfig, TimerEdit, TimerSize, TimerType } from '../types';
 
 const Dashboard: React.FC = () => {
-  const { timers, addTimer, deductTime } = useTimers();
+  const { timers, addTimer, updateTimer, archiveTimer, restoreTimer, deductTime, logEntry, correctTime } = useTimers();
   const [isAdding, setIsAdding] = useState(false);
   const [loggingTimerId, setLoggingTimerId] = useState<string | null>(null);
+  const [editingTimerId, setEditingTimerId] = useState<string | null>(null);
+  const [lastDeleted, setLastDeleted] = useState<{ id: string; title: string } | null>(null);
 
   // Form State
   const [title, setTitle] = useState('');
@@ -15,23 +24,35 @@ const Dashboard: React.FC = () => {
   const [color, setColor] = useState('#007aff');
   const [size, setSize] = useState<TimerSize>('small');
   const [type, setType] = useState<TimerType>('goal');
+  const [overtime, setOvertime] = useState(false);
+  const [workDays, setWorkDays] = useState(ALL_DAYS);
+  const [pomodoro, setPomodoro] = useState<PomodoroConfig>({ targetId: '', ...DEFAULT_POMODORO });
+
+  const hasGoal = type === 'goal' || type === 'daily';
 
   const handleAdd = (e: React.FormEvent) => {
     e.preventDefault();
     if (!title) return;
-    if (type === 'goal' && !hours) return;
+    if (hasGoal && !hours) return;
+    if (type === 'pomodoro' && !isCompletePomodoro(pomodoro)) return;
 
     addTimer({
       type,
       title,
-      totalSeconds: type === 'goal' ? parseFloat(hours) * 3600 : 0,
+      totalSeconds: hasGoal ? parseFloat(hours) * 3600 : 0,
       elapsedSeconds: 0,
       color,
       size,
+      overtime: hasGoal && overtime,
+      workDays: hasGoal && workDays.length < 7 ? workDays : undefined,
+      pomodoro: type === 'pomodoro' ? pomodoro : undefined,
     });
 
     setTitle('');
     setHours('');
+    setOvertime(false);
+    setWorkDays(ALL_DAYS);
+    setPomodoro({ targetId: '', ...DEFAULT_POMODORO });
     setIsAdding(false);
     setType('goal'); // reset
   };
@@ -43,24 +64,63 @@ const Dashboard: React.FC = () => {
     }
   };
 
+  const handleLogRange = (startedAt: number, endedAt: number) => {
+    if (loggingTimerId) {
+      logEntry(loggingTimerId, startedAt, endedAt);
+      setLoggingTimerId(null);
+    }
+  };
+
+  const handleCorrect = (completedSeconds: number, reason: string) => {
+    if (loggingTimerId) {
+      correctTime(loggingTimerId, completedSeconds, reason);
+      setLoggingTimerId(null);
+    }
+  };
+
+  const handleEdit = (updates: TimerEdit) => {
+    if (editingTimerId) {
+      updateTimer(editingTimerId, updates);
+      setEditingTimerId(null);
+    }
+  };
+
+  // Deleting from the dashboard archives the timer; the toast offers a way back for a few seconds
+  const handleDelete = (id: string, title: string) => {
+    archiveTimer(id);
+    setLastDeleted({ id, title });
+    setTimeout(() => setLastDeleted(current => current?.id === id ? null : current), 6000);
+  };
+
+  const handleUndoDelete = () => {
+    if (lastDeleted) {
+      restoreTimer(lastDeleted.id);
+      setLastDeleted(null);
+    }
+  };
+
   const activeTimerForLog = timers.find(t => t.id === loggingTimerId);
+  const activeTimerForEdit = timers.find(t => t.id === editingTimerId);
 
   // Split timers
-  const goalTimers = timers.filter(t => t.type === 'goal' || !t.type); // Default to goal if undefined
+  const goalTimers = timers.filter(t => t.type !== 'stopwatch' && t.type !== 'pomodoro'); // Weekly goals and daily quotas; goal if undefined
   const stopwatchTimers = timers.filter(t => t.type === 'stopwatch');
+  const pomodoroTimers = timers.filter(t => t.type === 'pomodoro');
 
   return (
     <div className="dashboard">
       {/* Weekly Goals Section */}
       {(goalTimers.length > 0 || stopwatchTimers.length === 0) && (
         <section>
-          {stopwatchTimers.length > 0 && <h2 className="section-title">Weekly Goals</h2>}
+          {(stopwatchTimers.length > 0 || pomodoroTimers.length > 0) && <h2 className="section-title">Goals</h2>}
           <div className="dashboard-grid">
             {goalTimers.map(timer => (
               <TimerCard
                 key={timer.id}
                 timer={timer}
                 onLogTime={() => setLoggingTimerId(timer.id)}
+                onEdit={() => setEditingTimerId(timer.id)}
+                onDelete={() => handleDelete(timer.id, timer.title)}
               />
             ))}
 
@@ -73,6 +133,24 @@ const Dashboard: React.FC = () => {
         </section>
       )}
 
+      {/* Work/break cycles, crediting the timers above */}
+      {pomodoroTimers.length > 0 && (
+        <section style={{ marginTop: '32px' }}>
+          <h2 className="section-title">Pomodoro</h2>
+          <div className="dashboard-grid">
+            {pomodoroTimers.map(timer => (
+              <TimerCard
+                key={timer.id}
+                timer={timer}
+                onLogTime={() => setLoggingTimerId(timer.id)}
+                onEdit={() => setEditingTimerId(timer.id)}
+                onDelete={() => handleDelete(timer.id, timer.title)}
+              />
+            ))}
+          </div>
+        </section>
+      )}
+
       {/* Casual / Time Tracking Section */}
       {stopwatchTimers.length > 0 && (
         <section style={{ marginTop: '32px' }}>
@@ -83,6 +161,8 @@ const Dashboard: React.FC = () => {
                 key={timer.id}
                 timer={timer}
                 onLogTime={() => setLoggingTimerId(timer.id)}
+                onEdit={() => setEditingTimerId(timer.id)}
+                onDelete={() => handleDelete(timer.id, timer.title)}
               />
             ))}
             {goalTimers.length === 0 && (
@@ -95,11 +175,27 @@ const Dashboard: React.FC = () => {
         </section>
       )}
 
+      <ArchivedTimers />
+
+      {lastDeleted && (
+        <UndoToast message={`"${lastDeleted.title}" deleted`} onUndo={handleUndoDelete} />
+      )}
+
       {activeTimerForLog && (
         <ManualTimeModal
           timer={activeTimerForLog}
           onClose={() => setLoggingTimerId(null)}
           onConfirm={handleLogTime}
+          onLogRange={handleLogRange}
+          onCorrect={handleCorrect}
+        />
+      )}
+
+      {activeTimerForEdit && (
+        <EditTimerModal
+          timer={activeTimerForEdit}
+          onClose={() => setEditingTimerId(null)}
+          onSave={handleEdit}
         />
       )}
 
@@ -116,11 +212,21 @@ const Dashboard: React.FC = () => {
                     className={type === 'goal' ? 'active' : ''}
                     onClick={() => setType('goal')}
                   >Goal</button>
+                  <button
+                    type="button"
+                    className={type === 'daily' ? 'active' : ''}
+                    onClick={() => setType('daily')}
+                  >Daily</button>
                   <button
                     type="button"
                     className={type === 'stopwatch' ? 'active' : ''}
                     onClick={() => setType('stopwatch')}
                   >Time Tracking</button>
+                  <button
+                    type="button"
+                    className={type === 'pomodoro' ? 'active' : ''}
+                    onClick={() => setType('pomodoro')}
+                  >Pomodoro</button>
                 </div>
               </div>
 
@@ -131,23 +237,36 @@ const Dashboard: React.FC = () => {
                   type="text"
                   value={title}
                   onChange={e => setTitle(e.target.value)}
-                  placeholder={type === 'goal' ? "e.g. Work" : "e.g. Cooking"}
+                  placeholder={type === 'goal' ? "e.g. Work" : type === 'daily' ? "e.g. Language practice" : type === 'pomodoro' ? "e.g. Focus" : "e.g. Cooking"}
                 />
               </div>
 
-              {type === 'goal' && (
+              {hasGoal && (
                 <div className="form-group">
-                  <label>Weekly Goal (Hours)</label>
+                  <label>{type === 'daily' ? 'Daily Quota (Hours)' : 'Weekly Goal (Hours)'}</label>
                   <input
                     type="number"
-                    step="0.5"
+                    step={type === 'daily' ? '0.25' : '0.5'}
                     value={hours}
                     onChange={e => setHours(e.target.value)}
-                    placeholder="20"
+                    placeholder={type === 'daily' ? '1' : '20'}
                   />
+                  <label className="checkbox-label">
+                    <input type="checkbox" checked={overtime} onChange={e => setOvertime(e.target.checked)} />
+                    Keep running past the goal
+                  </label>
                 </div>
               )}
 
+              {hasGoal && (
+                <div className="form-group">
+                  <label>{type === 'daily' ? 'Quota Days' : 'Work Days'}</label>
+                  <WorkDaysPicker value={workDays} onChange={setWorkDays} />
+                </div>
+              )}
+
+              {type === 'pomodoro' && <PomodoroFields value={pomodoro} onChange={setPomodoro} />}
+
               <div className="form-group">
                 <label>Size</label>
                 <div className="size-options">
@@ -291,6 +410,15 @@ const Dashboard: React.FC = () => {
           color: var(--text-secondary);
         }
 
+        .form-group .checkbox-label {
+          display: flex;
+          align-items: center;
+          gap: 8px;
+          margin: 10px 0 0;
+          font-weight: 400;
+          cursor: pointer;
+        }
+
         .size-options {
           display: flex;
           gap: 8px;
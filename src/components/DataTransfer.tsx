@@ -0,0 +1,272 @@
+import React, { useState } from 'react';
+import { useTimers } from '../store/TimerContext';
+import { historyCsv, planCsvImport, sessionsCsv } from '../lib/csv';
+import type { CsvImportPlan } from '../lib/csv';
+import { downloadFile } from '../lib/download';
+import { sessionsIcs } from '../lib/ical';
+import { createBackup, parseBackup } from '../lib/backup';
+import type { Backup } from '../lib/backup';
+import { zonedDateInput } from '../lib/week';
+
+const DataTransfer: React.FC = () => {
+  const { timers, archivedTimers, history, entries, settings, logEntries, restoreBackup } = useTimers();
+  const [preview, setPreview] = useState<{ fileName: string; plan: CsvImportPlan } | null>(null);
+  const [backup, setBackup] = useState<Backup | null>(null);
+  const [restoreMode, setRestoreMode] = useState<'merge' | 'replace'>('merge');
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const allTimers = [...timers, ...archivedTimers];
+
+  const download = (kind: string, extension: string, content: string, type: string) => {
+    const date = zonedDateInput(Date.now(), settings);
+    downloadFile(`weektime-${kind}-${date}.${extension}`, content, type);
+  };
+  const downloadCsv = (kind: string, content: string) => download(kind, 'csv', content, 'text/csv;charset=utf-8');
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setMessage(null);
+    const text = await file.text();
+    setPreview({ fileName: file.name, plan: planCsvImport(text, allTimers, entries, settings, Date.now()) });
+  };
+
+  const handleImport = () => {
+    if (!preview) return;
+    const { plan } = preview;
+    logEntries(plan.timers, plan.sessions);
+    setMessage(`Imported ${plan.sessions.length} ${plan.sessions.length === 1 ? 'session' : 'sessions'}.`);
+    setPreview(null);
+  };
+
+  const handleDownloadBackup = () => {
+    const data = createBackup({ timers: allTimers, history, entries }, settings, Date.now());
+    download('backup', 'json', JSON.stringify(data, null, 2), 'application/json');
+  };
+
+  const handleBackupFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setMessage(null);
+    setError(null);
+    setBackup(null);
+    try {
+      setBackup(parseBackup(await file.text()));
+      setRestoreMode('merge');
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const handleRestore = () => {
+    if (!backup) return;
+    if (restoreMode === 'replace' && !window.confirm('Replace all timers, weeks, sessions and settings with the backup? This cannot be undone.')) {
+      return;
+    }
+    restoreBackup(backup, restoreMode);
+    setMessage(restoreMode === 'replace' ? 'Backup restored.' : 'Backup merged.');
+    setBackup(null);
+  };
+
+  const count = (n: number, one: string, many: string) => `${n} ${n === 1 ? one : many}`;
+
+  const importHours = preview
+    ? preview.plan.sessions.reduce((sum, s) => sum + (s.endedAt - s.startedAt), 0) / 3600000
+    : 0;
+
+  return (
+    <div className="settings-card data-card">
+      <h2>Data</h2>
+
+      <div className="data-actions">
+        <button type="button" onClick={() => downloadCsv('history', historyCsv(history, settings))} disabled={history.length === 0}>
+          Export weeks (CSV)
+        </button>
+        <button type="button" onClick={() => downloadCsv('sessions', sessionsCsv(entries, allTimers, settings))} disabled={entries.length === 0}>
+          Export sessions (CSV)
+        </button>
+        <button
+          type="button"
+          onClick={() => download('sessions', 'ics', sessionsIcs(entries, allTimers, settings), 'text/calendar;charset=utf-8')}
+          disabled={entries.length === 0}
+        >
+          Export to calendar (.ics)
+        </button>
+        <label className="file-btn">
+          Import sessions (CSV)
+          <input type="file" accept=".csv,text/csv" onChange={handleFile} />
+        </label>
+      </div>
+
+      <p className="settings-hint">
+        Weeks have one row per activity with goal and completed hours. Sessions can be imported
+        back in the same format; times are read in the timezone above. The calendar file has an
+        event for every finished session.
+      </p>
+
+      {preview && (
+        <div className="import-preview">
+          <h3>{preview.fileName}</h3>
+          {preview.plan.sessions.length > 0 ? (
+            <p>
+              {preview.plan.sessions.length} {preview.plan.sessions.length === 1 ? 'session' : 'sessions'},{' '}
+              {Math.round(importHours * 10) / 10}h in total, will be logged.
+            </p>
+          ) : (
+            <p>Nothing to import.</p>
+          )}
+          {preview.plan.timers.length > 0 && (
+            <p>
+              New {preview.plan.timers.length === 1 ? 'activity' : 'activities'}:{' '}
+              {preview.plan.timers.map(t => t.title).join(', ')}
+            </p>
+          )}
+          {preview.plan.errors.length > 0 && (
+            <>
+              <p>{preview.plan.errors.length} {preview.plan.errors.length === 1 ? 'row' : 'rows'} skipped:</p>
+              <ul className="import-errors">
+                {preview.plan.errors.slice(0, 20).map(err => (
+                  <li key={err.row}>Row {err.row}: {err.message}</li>
+                ))}
+                {preview.plan.errors.length > 20 && <li>…and {preview.plan.errors.length - 20} more</li>}
+              </ul>
+            </>
+          )}
+          <div className="settings-actions">
+            <button type="button" onClick={() => setPreview(null)}>Cancel</button>
+            <button type="button" className="primary" onClick={handleImport} disabled={preview.plan.sessions.length === 0}>
+              Import
+            </button>
+          </div>
+        </div>
+      )}
+
+      <h3 className="data-subheading">Backup</h3>
+      <div className="data-actions">
+        <button type="button" onClick={handleDownloadBackup}>Download backup</button>
+        <label className="file-btn">
+          Restore backup
+          <input type="file" accept=".json,application/json" onChange={handleBackupFile} />
+        </label>
+      </div>
+      <p className="settings-hint">
+        A backup holds every timer, week, session and your settings in one file.
+      </p>
+
+      {backup && (
+        <div className="import-preview">
+          <h3>Backup{backup.exportedAt && ` from ${new Date(backup.exportedAt).toLocaleString()}`}</h3>
+          <p>
+            {count(backup.timers.length, 'timer', 'timers')}, {count(backup.history.length, 'week', 'weeks')},{' '}
+            {count(backup.entries.length, 'session', 'sessions')}.
+          </p>
+          <div className="restore-modes">
+            <label>
+              <input type="radio" checked={restoreMode === 'merge'} onChange={() => setRestoreMode('merge')} />
+              Merge: keep everything here and add what's missing
+            </label>
+            <label>
+              <input type="radio" checked={restoreMode === 'replace'} onChange={() => setRestoreMode('replace')} />
+              Replace: delete everything here, including settings, and use the backup
+            </label>
+          </div>
+          <div className="settings-actions">
+            <button type="button" onClick={() => setBackup(null)}>Cancel</button>
+            <button type="button" className="primary" onClick={handleRestore}>
+              {restoreMode === 'replace' ? 'Replace' : 'Merge'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {message && <p className="saved-note">{message}</p>}
+      {error && <p className="data-error">{error}</p>}
+
+      <style>{`
+        .data-actions {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 8px;
+          margin-bottom: 12px;
+        }
+
+        .data-actions button,
+        .file-btn,
+        .import-preview .settings-actions button:not(.primary) {
+          padding: 8px 14px;
+          border-radius: var(--radius-md);
+          border: 1px solid rgba(0,0,0,0.1);
+          background: var(--bg-color);
+          color: var(--text-primary);
+          font-size: 0.9rem;
+          cursor: pointer;
+        }
+
+        .data-actions button:disabled {
+          opacity: 0.5;
+          cursor: not-allowed;
+        }
+
+        .data-subheading {
+          font-size: 1rem;
+          margin: 20px 0 12px;
+        }
+
+        .data-error {
+          color: var(--destructive);
+          font-size: 0.9rem;
+        }
+
+        .restore-modes {
+          display: flex;
+          flex-direction: column;
+          gap: 8px;
+          margin: 12px 0;
+        }
+
+        .restore-modes label {
+          display: flex;
+          gap: 8px;
+          align-items: flex-start;
+          cursor: pointer;
+        }
+
+        .file-btn input {
+          display: none;
+        }
+
+        .import-preview {
+          border-top: 1px solid rgba(0,0,0,0.1);
+          margin-top: 12px;
+          padding-top: 12px;
+          font-size: 0.9rem;
+        }
+
+        .import-preview h3 {
+          font-size: 1rem;
+          margin-bottom: 8px;
+          word-break: break-all;
+        }
+
+        .import-preview p {
+          margin-bottom: 6px;
+        }
+
+        .import-errors {
+          color: var(--destructive);
+          font-size: 0.85rem;
+          padding-left: 20px;
+          max-height: 160px;
+          overflow-y: auto;
+        }
+      `}</style>
+    </div>
+  );
+};
+
+export default DataTransfer;
@@ -0,0 +1,162 @@
+import React, { useState } from 'react';
+import type { Timer, TimerEdit, TimerSize, TimerType } from '../types';
+import { ALL_DAYS } from '../lib/pacing';
+import { isCompletePomodoro } from '../lib/pomodoro';
+import WorkDaysPicker from './WorkDaysPicker';
+import PomodoroFields from './PomodoroFields';
+
+interface EditTimerModalProps {
+  timer: Timer;
+  onClose: () => void;
+  onSave: (updates: TimerEdit) => void;
+}
+
+const EditTimerModal: React.FC<EditTimerModalProps> = ({ timer, onClose, onSave }) => {
+  const [title, setTitle] = useState(timer.title);
+  const [hours, setHours] = useState(timer.type === 'goal' || timer.type === 'daily' ? String(timer.totalSeconds / 3600) : '');
+  const [color, setColor] = useState(timer.color);
+  const [size, setSize] = useState<TimerSize>(timer.size);
+  const [type, setType] = useState<TimerType>(timer.type || 'goal');
+  const [overtime, setOvertime] = useState(!!timer.overtime);
+  const [workDays, setWorkDays] = useState(timer.workDays ?? ALL_DAYS);
+  const [pomodoro, setPomodoro] = useState(timer.pomodoro);
+
+  // A pomodoro stays one: it has no time of its own to carry over to another type
+  const isPomodoro = type === 'pomodoro';
+  const hasGoal = type === 'goal' || type === 'daily';
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!title) return;
+    if (hasGoal && !(parseFloat(hours) > 0)) return;
+
+    if (isPomodoro) {
+      if (!pomodoro || !isCompletePomodoro(pomodoro)) return;
+      onSave({ title, color, size, pomodoro });
+      return;
+    }
+
+    onSave({
+      type,
+      title,
+      totalSeconds: hasGoal ? Math.round(parseFloat(hours) * 3600) : 0,
+      color,
+      size,
+      overtime: hasGoal && overtime,
+      workDays: hasGoal && workDays.length < 7 ? workDays : undefined,
+    });
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal" onClick={e => e.stopPropagation()}>
+        <h2>Edit Timer</h2>
+        <form onSubmit={handleSave}>
+          {!isPomodoro && (
+            <div className="form-group type-selector">
+              <label>Type</label>
+              <div className="toggle-bg">
+                <button
+                  type="button"
+                  className={type === 'goal' ? 'active' : ''}
+                  onClick={() => setType('goal')}
+                >Goal</button>
+                <button
+                  type="button"
+                  className={type === 'daily' ? 'active' : ''}
+                  onClick={() => setType('daily')}
+                >Daily</button>
+                <button
+                  type="button"
+                  className={type === 'stopwatch' ? 'active' : ''}
+                  onClick={() => setType('stopwatch')}
+                >Time Tracking</button>
+              </div>
+            </div>
+          )}
+
+          <div className="form-group">
+            <label>Activity Name</label>
+            <input
+              autoFocus
+              type="text"
+              value={title}
+              onChange={e => setTitle(e.target.value)}
+            />
+          </div>
+
+          {hasGoal && (
+            <div className="form-group">
+              <label>{type === 'daily' ? 'Daily Quota (Hours)' : 'Weekly Goal (Hours)'}</label>
+              <input
+                type="number"
+                step={type === 'daily' ? '0.25' : '0.5'}
+                min="0"
+                value={hours}
+                onChange={e => setHours(e.target.value)}
+                placeholder={type === 'daily' ? '1' : '20'}
+              />
+              <label className="checkbox-label">
+                <input type="checkbox" checked={overtime} onChange={e => setOvertime(e.target.checked)} />
+                Keep running past the goal
+              </label>
+            </div>
+          )}
+
+          {hasGoal && (
+            <div className="form-group">
+              <label>{type === 'daily' ? 'Quota Days' : 'Work Days'}</label>
+              <WorkDaysPicker value={workDays} onChange={setWorkDays} />
+            </div>
+          )}
+
+          {isPomodoro && pomodoro && <PomodoroFields value={pomodoro} onChange={setPomodoro} />}
+
+          <div className="form-group">
+            <label>Size</label>
+            <div className="size-options">
+              {(['small', 'medium', 'large'] as TimerSize[]).map(s => (
+                <button
+                  key={s}
+                  type="button"
+                  className={`size-opt ${size === s ? 'selected' : ''}`}
+                  onClick={() => setSize(s)}
+                >
+                  {s}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="form-group">
+            <label>Color</label>
+            <input
+              type="color"
+              value={color}
+              onChange={e => setColor(e.target.value)}
+              style={{ width: '100%', height: '40px' }}
+            />
+          </div>
+
+          <p className="edit-note">
+            {isPomodoro ? 'Time spent in the current interval is kept.' : 'Time already tracked this week is kept.'}
+          </p>
+
+          <div className="modal-actions">
+            <button type="button" onClick={onClose}>Cancel</button>
+            <button type="submit" className="primary">Save</button>
+          </div>
+        </form>
+      </div>
+
+      <style>{`
+        .edit-note {
+          font-size: 0.85rem;
+          color: var(--text-secondary);
+          margin: 0;
+        }
+      `}</style>
+    </div>
+  );
+};
+
+export default EditTimerModal;
@@ -0,0 +1,50 @@
+import React, { useState } from 'react';
+import { useTimers } from '../store/TimerContext';
+
+// Shown after signing in when this device still holds timers tracked as a guest.
+const GuestImportPrompt: React.FC = () => {
+  const { guestData, importGuestData, discardGuestData } = useTimers();
+  const [dismissed, setDismissed] = useState(false);
+
+  if (!guestData || dismissed) return null;
+
+  const timerCount = guestData.timers.length;
+  const weekCount = guestData.history.length;
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal guest-import">
+        <h2>Add this device's timers to your account?</h2>
+        <p>
+          You tracked {timerCount} {timerCount === 1 ? 'timer' : 'timers'}
+          {weekCount > 0 && <> and {weekCount} {weekCount === 1 ? 'week' : 'weeks'} of history</>} without
+          an account on this device. Timers and weeks your account already has won't be duplicated.
+        </p>
+        <div className="modal-actions">
+          <button type="button" className="discard" onClick={discardGuestData}>Discard</button>
+          <button type="button" onClick={() => setDismissed(true)}>Not now</button>
+          <button type="button" className="primary" onClick={importGuestData}>Upload</button>
+        </div>
+      </div>
+
+      <style>{`
+        .guest-import h2 {
+          font-size: 1.25rem;
+          margin-bottom: 12px;
+        }
+
+        .guest-import p {
+          color: var(--text-secondary);
+          line-height: 1.4;
+        }
+
+        .guest-import .modal-actions button.discard {
+          margin-right: auto;
+          color: var(--accent-red);
+        }
+      `}</style>
+    </div>
+  );
+};
+
+export default GuestImportPrompt;
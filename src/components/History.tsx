@@ -1,8 +1,13 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { useTimers } from '../store/TimerContext';
+import { formatWeekLabel } from '../lib/week';
+import WeekDetail from './WeekDetail';
 
 const History: React.FC = () => {
-  const { history } = useTimers();
+  const { history, settings } = useTimers();
+  const [selectedWeekId, setSelectedWeekId] = useState<string | null>(null);
+
+  const selectedWeek = history.find(w => w.id === selectedWeekId);
 
   if (history.length === 0) {
     return (
@@ -14,10 +19,12 @@ const History: React.FC = () => {
 
   return (
     <div className="history-container">
-      {history.map(week => (
-        <div key={week.id} className="history-card">
+      {selectedWeek && <WeekDetail week={selectedWeek} onBack={() => setSelectedWeekId(null)} />}
+
+      {!selectedWeek && history.map(week => (
+        <div key={week.id} className="history-card" onClick={() => setSelectedWeekId(week.id)}>
           <div className="history-header">
-            <h3>Week of {new Date(week.weekStart).toLocaleDateString()}</h3>
+            <h3>Week of {formatWeekLabel(week.weekStart, settings)}</h3>
           </div>
           <div className="history-items">
             {(week.timersSnapshot || []).map((timer, idx) => (
@@ -62,6 +69,12 @@ const History: React.FC = () => {
           border-radius: var(--radius-lg);
           padding: 20px;
           box-shadow: var(--shadow-sm);
+          cursor: pointer;
+          transition: box-shadow 0.2s;
+        }
+
+        .history-card:hover {
+          box-shadow: var(--shadow-md);
         }
 
         .history-header {
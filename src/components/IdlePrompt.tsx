@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { useTimers } from '../store/TimerContext';
+import { useIdle } from '../store/useIdle';
+import { DEFAULT_IDLE_MINUTES, idleSessions } from '../lib/idle';
+import { formatDuration } from '../lib/format';
+
+// Shown on coming back to the device while timers were running: keep the time away,
+// discard it, or move it to another timer.
+const IdlePrompt: React.FC = () => {
+  const { timers, entries, settings, discardIdleTime } = useTimers();
+  const [away, clearAway] = useIdle((settings.idleMinutes ?? DEFAULT_IDLE_MINUTES) * 60_000);
+  const [target, setTarget] = useState('');
+
+  if (!away) return null;
+
+  const counted = idleSessions(entries, away);
+  const running = timers.filter(t => counted.some(e => e.timerId === t.id));
+  if (running.length === 0) return null;
+
+  const others = timers.filter(t => t.type !== 'pomodoro' && !running.includes(t));
+  const time = (instant: number) =>
+    new Date(instant).toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit', timeZone: settings.timezone });
+
+  const resolve = (reassignTo?: string) => {
+    discardIdleTime(away, reassignTo);
+    clearAway();
+    setTarget('');
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal idle-prompt">
+        <h2>You were away for {formatDuration(Math.round((away.to - away.from) / 60000) * 60)}</h2>
+        <p>
+          From {time(away.from)} to {time(away.to)}, while {running.map(t => t.title).join(', ')}{' '}
+          {running.length === 1 ? 'was' : 'were'} running. Should that time count?
+        </p>
+
+        {others.length > 0 && (
+          <div className="form-group idle-reassign">
+            <select value={target} onChange={e => setTarget(e.target.value)} aria-label="Timer to move the time to">
+              <option value="">Move it to…</option>
+              {others.map(t => <option key={t.id} value={t.id}>{t.title}</option>)}
+            </select>
+            <button type="button" disabled={!target} onClick={() => resolve(target)}>Move</button>
+          </div>
+        )}
+
+        <div className="modal-actions">
+          <button type="button" className="discard" onClick={() => resolve()}>Discard</button>
+          <button type="button" className="primary" onClick={clearAway}>Keep</button>
+        </div>
+      </div>
+
+      <style>{`
+        .idle-prompt h2 {
+          font-size: 1.25rem;
+          margin-bottom: 12px;
+        }
+
+        .idle-prompt p {
+          color: var(--text-secondary);
+          line-height: 1.4;
+        }
+
+        .idle-reassign {
+          display: flex;
+          gap: 8px;
+        }
+
+        .idle-reassign select {
+          flex: 1;
+        }
+
+        .idle-prompt .modal-actions button.discard {
+          margin-right: auto;
+          color: var(--accent-red);
+        }
+      `}</style>
+    </div>
+  );
+};
+
+export default IdlePrompt;
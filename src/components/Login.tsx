@@ -1,7 +1,9 @@
 import React, { useState } from 'react';
 import { supabase } from '../lib/supabase';
+import { useAuth } from '../store/AuthContext';
 
 const Login: React.FC = () => {
+    const { continueAsGuest } = useAuth();
     const [email, setEmail] = useState('');
     const [loading, setLoading] = useState(false);
     const [message, setMessage] = useState<{ type: 'error' | 'success', text: string } | null>(null);
@@ -53,6 +55,11 @@ const Login: React.FC = () => {
                         {message.text}
                     </div>
                 )}
+
+                <button type="button" className="guest-btn" onClick={continueAsGuest}>
+                    Continue without account
+                </button>
+                <p className="guest-note">Your timers stay on this device. You can sign in later to sync them.</p>
             </div>
 
             <style>{`
@@ -97,6 +104,22 @@ const Login: React.FC = () => {
             opacity: 0.7;
             cursor: not-allowed;
         }
+        .guest-btn {
+            margin-top: 20px;
+            background: none;
+            border: none;
+            color: var(--accent-blue);
+            font-size: 0.95rem;
+            font-weight: 500;
+            cursor: pointer;
+        }
+        .guest-btn:hover {
+            text-decoration: underline;
+        }
+        .guest-note {
+            margin: 4px 0 0;
+            font-size: 0.8rem;
+        }
         .message {
             margin-top: 16px;
             padding: 12px;
@@ -1,29 +1,85 @@
 import React, { useState, useEffect, useRef } from 'react';
 import type { Timer } from '../types';
+import { useTimers } from '../store/TimerContext';
+import { counterProgress } from '../lib/rollover';
+import { dailyQuota } from '../lib/entries';
+import { addDays, getDayStart, zonedDateInput, zonedDateTime } from '../lib/week';
+import { formatDuration } from '../lib/format';
+
+type Mode = 'add' | 'subtract' | 'set';
 
 interface ManualTimeModalProps {
     timer: Timer;
     onClose: () => void;
     onConfirm: (seconds: number) => void;
+    onLogRange: (startedAt: number, endedAt: number) => void;
+    onCorrect: (completedSeconds: number, reason: string) => void;
 }
 
-const ManualTimeModal: React.FC<ManualTimeModalProps> = ({ timer, onClose, onConfirm }) => {
+const ManualTimeModal: React.FC<ManualTimeModalProps> = ({ timer, onClose, onConfirm, onLogRange, onCorrect }) => {
+    const { entries, settings } = useTimers();
+    const [mode, setMode] = useState<Mode>('add');
     const [minutes, setMinutes] = useState('');
     const [hours, setHours] = useState('');
+    const [reason, setReason] = useState('');
+    // "Earlier" logs a session at a given day and time instead of one ending now
+    const [earlier, setEarlier] = useState(false);
+    const [day, setDay] = useState(() => zonedDateInput(Date.now(), settings));
+    const [from, setFrom] = useState('');
+    const [to, setTo] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [today] = useState(() => getDayStart(new Date(), settings).getTime());
     const inputRef = useRef<HTMLInputElement>(null);
 
     useEffect(() => {
         inputRef.current?.focus();
-    }, []);
+    }, [mode]);
+
+    // Daily quotas are corrected for today, against today's target
+    const completed = counterProgress(timer);
+    const period = timer.type === 'daily' ? 'today' : 'this week';
+    const goal = timer.type === 'daily' ? dailyQuota(timer, today, settings) : timer.totalSeconds;
+    const corrections = entries
+        .filter(e => e.timerId === timer.id && e.source === 'correction')
+        .sort((a, b) => b.startedAt - a.startedAt)
+        .slice(0, 5);
+
+    const m = parseInt(minutes || '0', 10);
+    const h = parseInt(hours || '0', 10);
+    const totalSeconds = (h * 3600) + (m * 60);
+    const hasInput = !!minutes || !!hours;
+
+    // An end time before the start means the session ran past midnight, into the next calendar day
+    const rangeStart = day && from ? zonedDateTime(day, from, settings) : undefined;
+    let rangeEnd: number | undefined;
+    if (rangeStart !== undefined && to) {
+        const end = zonedDateTime(day, to, settings);
+        rangeEnd = end > rangeStart ? end : addDays(new Date(end), 1, settings).getTime();
+    } else if (rangeStart !== undefined && totalSeconds > 0) {
+        rangeEnd = rangeStart + totalSeconds * 1000;
+    }
+
+    const canSubmit = mode === 'add'
+        ? (earlier ? rangeEnd !== undefined : totalSeconds > 0)
+        : reason.trim() !== '' && (mode === 'set' ? hasInput : totalSeconds > 0);
 
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
-        const m = parseInt(minutes || '0', 10);
-        const h = parseInt(hours || '0', 10);
-        const totalSeconds = (h * 3600) + (m * 60);
+        if (!canSubmit) return;
 
-        if (totalSeconds > 0) {
+        if (mode === 'add' && earlier) {
+            if (rangeStart === undefined || rangeEnd === undefined) return;
+            if (rangeEnd > Date.now()) {
+                setError("That session hasn't ended yet.");
+                return;
+            }
+            onLogRange(rangeStart, rangeEnd);
+        } else if (mode === 'add') {
             onConfirm(totalSeconds);
+        } else if (mode === 'subtract') {
+            onCorrect(Math.max(0, completed - totalSeconds), reason.trim());
+        } else {
+            onCorrect(totalSeconds, reason.trim());
         }
     };
 
@@ -35,41 +91,119 @@ const ManualTimeModal: React.FC<ManualTimeModalProps> = ({ timer, onClose, onCon
                     <button className="close-btn" onClick={onClose}>&times;</button>
                 </div>
 
-                <p className="timer-title">for <strong>{timer.title}</strong></p>
+                <p className="timer-title">
+                    for <strong>{timer.title}</strong> · {formatDuration(completed)} {period}
+                </p>
+
+                <div className="toggle-bg mode-selector">
+                    <button type="button" className={mode === 'add' ? 'active' : ''} onClick={() => setMode('add')}>Add</button>
+                    <button type="button" className={mode === 'subtract' ? 'active' : ''} onClick={() => setMode('subtract')}>Subtract</button>
+                    <button type="button" className={mode === 'set' ? 'active' : ''} onClick={() => setMode('set')}>Set total</button>
+                </div>
 
                 <form onSubmit={handleSubmit}>
-                    <div className="time-inputs">
-                        <div className="input-group">
-                            <label>Hours</label>
-                            <input
-                                ref={inputRef}
-                                type="number"
-                                min="0"
-                                value={hours}
-                                onChange={e => setHours(e.target.value)}
-                                placeholder="0"
-                            />
+                    {mode === 'add' && (
+                        <div className="when-selector">
+                            <label>
+                                <input type="radio" checked={!earlier} onChange={() => setEarlier(false)} /> Just now
+                            </label>
+                            <label>
+                                <input type="radio" checked={earlier} onChange={() => setEarlier(true)} /> Earlier
+                            </label>
                         </div>
-                        <div className="input-group">
-                            <label>Minutes</label>
+                    )}
+
+                    {mode === 'add' && earlier && (
+                        <div className="when-inputs">
+                            <div className="input-group">
+                                <label>Day</label>
+                                <input type="date" value={day} onChange={e => { setDay(e.target.value); setError(null); }} />
+                            </div>
+                            <div className="input-group">
+                                <label>From</label>
+                                <input type="time" value={from} onChange={e => { setFrom(e.target.value); setError(null); }} />
+                            </div>
+                            <div className="input-group">
+                                <label>To</label>
+                                <input type="time" value={to} onChange={e => { setTo(e.target.value); setError(null); }} />
+                            </div>
+                        </div>
+                    )}
+
+                    {mode === 'add' && earlier && !to && (
+                        <p className="correction-hint">No end time? Enter how long it took instead.</p>
+                    )}
+
+                    {!(mode === 'add' && earlier && to) && (
+                        <div className="time-inputs">
+                            <div className="input-group">
+                                <label>Hours</label>
+                                <input
+                                    ref={inputRef}
+                                    type="number"
+                                    min="0"
+                                    value={hours}
+                                    onChange={e => setHours(e.target.value)}
+                                    placeholder="0"
+                                />
+                            </div>
+                            <div className="input-group">
+                                <label>Minutes</label>
+                                <input
+                                    type="number"
+                                    min="0"
+                                    max="59"
+                                    value={minutes}
+                                    onChange={e => setMinutes(e.target.value)}
+                                    placeholder="0"
+                                />
+                            </div>
+                        </div>
+                    )}
+
+                    {error && <p className="form-error">{error}</p>}
+
+                    {mode === 'subtract' && totalSeconds > completed && (
+                        <p className="correction-hint">Only {formatDuration(completed)} was tracked {period}; the total will go to 0.</p>
+                    )}
+                    {mode === 'set' && timer.type !== 'stopwatch' && !timer.overtime && totalSeconds > goal && (
+                        <p className="correction-hint">The total can't go past the goal of {formatDuration(goal)}.</p>
+                    )}
+
+                    {mode !== 'add' && (
+                        <div className="input-group reason-group">
+                            <label>Reason</label>
                             <input
-                                type="number"
-                                min="0"
-                                max="59"
-                                value={minutes}
-                                onChange={e => setMinutes(e.target.value)}
-                                placeholder="0"
+                                type="text"
+                                value={reason}
+                                onChange={e => setReason(e.target.value)}
+                                placeholder="e.g. Forgot to stop it overnight"
                             />
                         </div>
-                    </div>
+                    )}
 
                     <div className="modal-actions">
                         <button type="button" onClick={onClose}>Cancel</button>
-                        <button type="submit" className="primary" disabled={!minutes && !hours}>
-                            Log Time
+                        <button type="submit" className="primary" disabled={!canSubmit}>
+                            {mode === 'add' ? 'Log Time' : 'Save Correction'}
                         </button>
                     </div>
                 </form>
+
+                {corrections.length > 0 && (
+                    <div className="corrections">
+                        <h3>Recent corrections</h3>
+                        {corrections.map(c => (
+                            <div key={c.id} className="correction-row">
+                                <span className="correction-delta">{(c.adjustSeconds ?? 0) >= 0 ? '+' : ''}{formatDuration(c.adjustSeconds ?? 0)}</span>
+                                <span className="correction-reason">{c.reason}</span>
+                                <span className="correction-date">
+                                    {new Date(c.startedAt).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+                                </span>
+                            </div>
+                        ))}
+                    </div>
+                )}
             </div>
 
             <style>{`
@@ -95,9 +229,49 @@ const ManualTimeModal: React.FC<ManualTimeModalProps> = ({ timer, onClose, onCon
 
         .timer-title {
           color: var(--text-secondary);
+          margin-bottom: 16px;
+        }
+
+        .mode-selector {
+          margin-bottom: 20px;
+        }
+
+        .when-selector {
+          display: flex;
+          gap: 20px;
+          margin-bottom: 16px;
+          color: var(--text-secondary);
+        }
+
+        .when-selector label {
+          display: flex;
+          align-items: center;
+          gap: 6px;
+          cursor: pointer;
+        }
+
+        .when-selector input {
+          width: auto;
+        }
+
+        .when-inputs {
+          display: grid;
+          grid-template-columns: 1.4fr 1fr 1fr;
+          gap: 8px;
           margin-bottom: 24px;
         }
 
+        .when-inputs input {
+          font-size: 0.95rem;
+          padding: 10px 6px;
+        }
+
+        .form-error {
+          font-size: 0.85rem;
+          color: var(--accent-red);
+          margin: -12px 0 16px;
+        }
+
         .time-inputs {
           display: flex;
           gap: 16px;
@@ -137,6 +311,58 @@ const ManualTimeModal: React.FC<ManualTimeModalProps> = ({ timer, onClose, onCon
            border-color: var(--accent-blue);
         }
 
+        .reason-group {
+          margin-bottom: 24px;
+        }
+
+        .reason-group input {
+          font-size: 1rem;
+          text-align: left;
+        }
+
+        .correction-hint {
+          font-size: 0.85rem;
+          color: var(--text-secondary);
+          margin: -12px 0 16px;
+        }
+
+        .corrections {
+          margin-top: 24px;
+          border-top: 1px solid rgba(0,0,0,0.05);
+          padding-top: 16px;
+        }
+
+        .corrections h3 {
+          font-size: 0.9rem;
+          color: var(--text-secondary);
+          margin-bottom: 8px;
+        }
+
+        .correction-row {
+          display: flex;
+          gap: 12px;
+          font-size: 0.85rem;
+          padding: 4px 0;
+        }
+
+        .correction-delta {
+          font-variant-numeric: tabular-nums;
+          font-weight: 600;
+          min-width: 64px;
+        }
+
+        .correction-reason {
+          flex: 1;
+          overflow: hidden;
+          text-overflow: ellipsis;
+          white-space: nowrap;
+        }
+
+        .correction-date {
+          color: var(--text-secondary);
+          white-space: nowrap;
+        }
+
         .modal-actions {
           display: flex;
           justify-content: flex-end;
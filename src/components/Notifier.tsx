@@ -0,0 +1,180 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useTimers } from '../store/TimerContext';
+import { useNow } from '../store/useNow';
+import { DEFAULT_NOTIFICATIONS, progressNotices, runningLongNotices } from '../lib/notifications';
+import type { TimerNotice } from '../lib/notifications';
+
+interface RaisedNotice extends TimerNotice {
+  id: number;
+  inApp: boolean;   // Shown here because the browser may not notify
+}
+
+const canNotify = () => 'Notification' in window && Notification.permission === 'granted';
+
+// A short two-tone chime, generated so there is no sound file to load
+const playChime = () => {
+  try {
+    const audio = new AudioContext();
+    [880, 1320].forEach((frequency, i) => {
+      const at = audio.currentTime + i * 0.15;
+      const tone = audio.createOscillator();
+      const gain = audio.createGain();
+      tone.frequency.value = frequency;
+      gain.gain.setValueAtTime(0.15, at);
+      gain.gain.exponentialRampToValueAtTime(0.001, at + 0.4);
+      tone.connect(gain).connect(audio.destination);
+      tone.start(at);
+      tone.stop(at + 0.4);
+    });
+    setTimeout(() => audio.close(), 1000);
+  } catch {
+    // No audio output; the notice itself still shows
+  }
+};
+
+// Tells about goals reached, milestones and timers left running (see lib/notifications.ts):
+// as browser notifications once permitted, otherwise in a stack of in-app notices.
+const Notifier: React.FC = () => {
+  const { timers, entries, settings, toggleTimer } = useTimers();
+  const prefs = settings.notifications ?? DEFAULT_NOTIFICATIONS;
+  const now = useNow(60_000);
+  const [seenTimers, setSeenTimers] = useState(timers);
+  const [notices, setNotices] = useState<RaisedNotice[]>([]);
+  const [remindedKeys, setRemindedKeys] = useState<string[]>([]);
+  const [dismissed, setDismissed] = useState<number[]>([]);
+  // Notices before this index have been sent to the browser (and chimed)
+  const delivered = useRef(0);
+
+  const raise = (found: TimerNotice[]) => {
+    const inApp = !canNotify();
+    setNotices(prev => [...prev, ...found.map((n, i) => ({ ...n, id: prev.length + i, inApp }))]);
+  };
+
+  // Each change of the timers is compared with the one before it
+  if (timers !== seenTimers) {
+    setSeenTimers(timers);
+    const found = progressNotices(seenTimers, timers, prefs);
+    if (found.length > 0) raise(found);
+  }
+
+  // One reminder per session that runs too long
+  const due = runningLongNotices(timers, entries, prefs, now).filter(n => !remindedKeys.includes(n.key));
+  if (due.length > 0) {
+    setRemindedKeys(prev => [...prev, ...due.map(n => n.key)]);
+    raise(due);
+  }
+
+  useEffect(() => {
+    const fresh = notices.slice(delivered.current);
+    delivered.current = notices.length;
+    for (const notice of fresh) {
+      if (notice.inApp) continue;
+      try {
+        const notification = new Notification(notice.title, { body: notice.body, tag: notice.key });
+        notification.onclick = () => window.focus();
+      } catch {
+        // Some mobile browsers only notify from a service worker
+      }
+    }
+    if (fresh.length > 0 && prefs.sound) playChime();
+  }, [notices, prefs.sound]);
+
+  const dismiss = (id: number) => setDismissed(prev => [...prev, id]);
+  const shown = notices.filter(n => n.inApp && !dismissed.includes(n.id));
+
+  // Progress notices go away by themselves; reminders wait for an answer
+  useEffect(() => {
+    const passing = notices.find(n => n.inApp && n.kind !== 'runningLong' && !dismissed.includes(n.id));
+    if (!passing) return;
+    const id = setTimeout(() => setDismissed(prev => [...prev, passing.id]), 10_000);
+    return () => clearTimeout(id);
+  }, [notices, dismissed]);
+
+  if (shown.length === 0) return null;
+
+  return (
+    <div className="notice-stack" role="status">
+      {shown.map(notice => {
+        const timer = timers.find(t => t.id === notice.timerId);
+        return (
+          <div key={notice.id} className={`notice ${notice.kind}`}>
+            <div className="notice-text">
+              <strong>{notice.title}</strong>
+              <span>{notice.body}</span>
+            </div>
+            {notice.kind === 'runningLong' && timer?.isRunning && (
+              <button type="button" className="notice-action" onClick={() => { toggleTimer(timer.id); dismiss(notice.id); }}>
+                Pause
+              </button>
+            )}
+            <button type="button" className="notice-close" onClick={() => dismiss(notice.id)} aria-label="Dismiss">
+              &times;
+            </button>
+          </div>
+        );
+      })}
+
+      <style>{`
+        .notice-stack {
+          position: fixed;
+          top: 16px;
+          right: 16px;
+          display: flex;
+          flex-direction: column;
+          gap: 8px;
+          z-index: 95;
+          max-width: min(360px, calc(100% - 32px));
+        }
+
+        .notice {
+          display: flex;
+          align-items: flex-start;
+          gap: 12px;
+          background: var(--card-bg);
+          border-left: 4px solid var(--accent-blue);
+          border-radius: var(--radius-md);
+          box-shadow: var(--shadow-md);
+          padding: 12px 12px 12px 16px;
+          animation: slideup 0.3s;
+        }
+
+        .notice.goalReached { border-left-color: var(--accent-green); }
+        .notice.runningLong { border-left-color: var(--accent-red); }
+
+        .notice-text {
+          flex: 1;
+          display: flex;
+          flex-direction: column;
+          gap: 2px;
+          min-width: 0;
+        }
+
+        .notice-text span {
+          font-size: 0.85rem;
+          color: var(--text-secondary);
+        }
+
+        .notice-action {
+          background: none;
+          border: none;
+          color: var(--accent-blue);
+          font-weight: 600;
+          cursor: pointer;
+          padding: 2px 4px;
+        }
+
+        .notice-close {
+          background: none;
+          border: none;
+          color: var(--text-secondary);
+          font-size: 1.2rem;
+          line-height: 1;
+          cursor: pointer;
+          padding: 0;
+        }
+      `}</style>
+    </div>
+  );
+};
+
+export default Notifier;
@@ -0,0 +1,81 @@
+import React from 'react';
+import type { PomodoroConfig } from '../types';
+import { useTimers } from '../store/TimerContext';
+
+interface PomodoroFieldsProps {
+  value: PomodoroConfig;
+  onChange: (config: PomodoroConfig) => void;
+}
+
+// Minutes in the form, seconds in the config
+const LENGTHS: { key: 'workSeconds' | 'breakSeconds' | 'longBreakSeconds'; label: string }[] = [
+  { key: 'workSeconds', label: 'Work' },
+  { key: 'breakSeconds', label: 'Break' },
+  { key: 'longBreakSeconds', label: 'Long break' },
+];
+
+// The timer a pomodoro credits its work to, and how long its intervals are
+const PomodoroFields: React.FC<PomodoroFieldsProps> = ({ value, onChange }) => {
+  const { timers } = useTimers();
+  const targets = timers.filter(t => t.type !== 'pomodoro');
+
+  return (
+    <>
+      <div className="form-group">
+        <label>Credit Work To</label>
+        <select value={value.targetId} onChange={e => onChange({ ...value, targetId: e.target.value })}>
+          <option value="" disabled>Choose a timer</option>
+          {targets.map(t => <option key={t.id} value={t.id}>{t.title}</option>)}
+        </select>
+      </div>
+
+      <div className="form-group">
+        <label>Intervals (Minutes)</label>
+        <div className="pomodoro-lengths">
+          {LENGTHS.map(({ key, label }) => (
+            <label key={key}>
+              <span>{label}</span>
+              <input
+                type="number"
+                min="1"
+                value={value[key] / 60 || ''}
+                onChange={e => onChange({ ...value, [key]: Math.round(Number(e.target.value) * 60) })}
+              />
+            </label>
+          ))}
+          <label>
+            <span>Work intervals per long break</span>
+            <input
+              type="number"
+              min="1"
+              value={value.longBreakEvery || ''}
+              onChange={e => onChange({ ...value, longBreakEvery: Math.floor(Number(e.target.value)) })}
+            />
+          </label>
+        </div>
+      </div>
+
+      <style>{`
+        .pomodoro-lengths {
+          display: grid;
+          grid-template-columns: repeat(2, 1fr);
+          gap: 8px 12px;
+        }
+
+        .pomodoro-lengths label {
+          display: flex;
+          flex-direction: column;
+          gap: 4px;
+          margin: 0;
+        }
+
+        .pomodoro-lengths span {
+          font-size: 0.8rem;
+          color: var(--text-secondary);
+        }
+      `}</style>
+    </>
+  );
+};
+
+export default PomodoroFields;
@@ -0,0 +1,318 @@
+import React, { useState } from 'react';
+import { useTimers } from '../store/TimerContext';
+import DataTransfer from './DataTransfer';
+import { WEEKDAY_NAMES, browserTimeZone, getWeekStart } from '../lib/week';
+import { DEFAULT_NOTIFICATIONS, MILESTONES } from '../lib/notifications';
+import { DEFAULT_IDLE_MINUTES } from '../lib/idle';
+import type { FocusMode, NotificationPrefs, UserSettings } from '../types';
+
+const REMINDER_HOURS = [1, 2, 3, 4, 6, 8, 12];
+const IDLE_MINUTES = [5, 10, 15, 30, 60];
+
+type Permission = NotificationPermission | 'unsupported';
+
+const formatHour = (hour: number) => new Date(2000, 0, 1, hour).toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' });
+
+const Settings: React.FC = () => {
+  const { settings, updateSettings } = useTimers();
+  const [draft, setDraft] = useState<UserSettings>(settings);
+  const [saved, setSaved] = useState(false);
+  const [shownSettings, setShownSettings] = useState(settings);
+  const [permission, setPermission] = useState<Permission>(() => 'Notification' in window ? Notification.permission : 'unsupported');
+
+  // Settings can change from elsewhere on this device, e.g. a restored backup
+  if (settings !== shownSettings) {
+    setShownSettings(settings);
+    setDraft(settings);
+  }
+
+  const timeZones = Intl.supportedValuesOf('timeZone');
+  if (!timeZones.includes(draft.timezone)) timeZones.unshift(draft.timezone);
+
+  const change = (updates: Partial<UserSettings>) => {
+    setDraft(prev => ({ ...prev, ...updates }));
+    setSaved(false);
+  };
+
+  const notifications = draft.notifications ?? DEFAULT_NOTIFICATIONS;
+  const changeNotifications = (updates: Partial<NotificationPrefs>) => change({ notifications: { ...notifications, ...updates } });
+  const toggleMilestone = (percent: number) => changeNotifications({
+    milestones: notifications.milestones.includes(percent)
+      ? notifications.milestones.filter(m => m !== percent)
+      : [...notifications.milestones, percent].sort((a, b) => a - b),
+  });
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateSettings(draft);
+    setSaved(true);
+  };
+
+  const currentWeekStart = getWeekStart(new Date(), draft).toLocaleString(undefined, {
+    timeZone: draft.timezone,
+    weekday: 'long', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit',
+  });
+
+  return (
+    <div className="settings-container">
+      <form className="settings-card" onSubmit={handleSave}>
+        <h2>Week</h2>
+
+        <div className="form-group">
+          <label htmlFor="week-start-day">Week starts on</label>
+          <select
+            id="week-start-day"
+            value={draft.weekStartDay}
+            onChange={e => change({ weekStartDay: parseInt(e.target.value, 10) })}
+          >
+            {WEEKDAY_NAMES.map((name, day) => (
+              <option key={day} value={day}>{name}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="form-group">
+          <label htmlFor="rollover-hour">New week begins at</label>
+          <select
+            id="rollover-hour"
+            value={draft.rolloverHour}
+            onChange={e => change({ rolloverHour: parseInt(e.target.value, 10) })}
+          >
+            {Array.from({ length: 24 }, (_, hour) => (
+              <option key={hour} value={hour}>{formatHour(hour)}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="form-group">
+          <label htmlFor="timezone">Timezone</label>
+          <select
+            id="timezone"
+            value={draft.timezone}
+            onChange={e => change({ timezone: e.target.value })}
+          >
+            {timeZones.map(tz => (
+              <option key={tz} value={tz}>{tz.replace(/_/g, ' ')}</option>
+            ))}
+          </select>
+          {draft.timezone !== browserTimeZone() && (
+            <button type="button" className="link-btn" onClick={() => change({ timezone: browserTimeZone() })}>
+              Use this device's timezone ({browserTimeZone()})
+            </button>
+          )}
+        </div>
+
+        <p className="settings-hint">This week started {currentWeekStart}.</p>
+
+        <h2 className="settings-section">Timers</h2>
+
+        <div className="form-group">
+          <label htmlFor="focus-mode">Starting a timer pauses</label>
+          <select
+            id="focus-mode"
+            value={draft.focusMode ?? 'off'}
+            onChange={e => change({ focusMode: e.target.value as FocusMode })}
+          >
+            <option value="off">Nothing, timers can run side by side</option>
+            <option value="all">Any other running timer</option>
+            <option value="section">Running timers in the same section</option>
+          </select>
+        </div>
+
+        <div className="form-group">
+          <label htmlFor="idle-minutes">Ask about time away from the device after</label>
+          <select
+            id="idle-minutes"
+            value={draft.idleMinutes ?? DEFAULT_IDLE_MINUTES}
+            onChange={e => change({ idleMinutes: parseInt(e.target.value, 10) })}
+          >
+            {IDLE_MINUTES.map(minutes => (
+              <option key={minutes} value={minutes}>{minutes} minutes</option>
+            ))}
+            <option value={0}>Never, always count it</option>
+          </select>
+        </div>
+
+        <h2 className="settings-section">Notifications</h2>
+
+        <div className="form-group">
+          <label className="check-label">
+            <input
+              type="checkbox"
+              checked={notifications.goalReached}
+              onChange={e => changeNotifications({ goalReached: e.target.checked })}
+            />
+            When a goal or daily quota is reached
+          </label>
+        </div>
+
+        <div className="form-group">
+          <label>Milestones on the way</label>
+          <div className="milestone-options">
+            {MILESTONES.map(percent => (
+              <button
+                key={percent}
+                type="button"
+                className={`milestone-opt ${notifications.milestones.includes(percent) ? 'selected' : ''}`}
+                onClick={() => toggleMilestone(percent)}
+              >
+                {percent}%
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="form-group">
+          <label htmlFor="running-reminder">Remind me when a timer has been running for</label>
+          <select
+            id="running-reminder"
+            value={notifications.runningOverHours ?? ''}
+            onChange={e => changeNotifications({ runningOverHours: e.target.value ? Number(e.target.value) : undefined })}
+          >
+            <option value="">Never</option>
+            {REMINDER_HOURS.map(hours => (
+              <option key={hours} value={hours}>{hours} {hours === 1 ? 'hour' : 'hours'}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="form-group">
+          <label className="check-label">
+            <input
+              type="checkbox"
+              checked={notifications.sound}
+              onChange={e => changeNotifications({ sound: e.target.checked })}
+            />
+            Play a sound
+          </label>
+        </div>
+
+        {permission === 'default' && (
+          <button type="button" className="link-btn" onClick={() => Notification.requestPermission().then(setPermission)}>
+            Allow browser notifications
+          </button>
+        )}
+        {permission === 'denied' && (
+          <p className="settings-hint">Browser notifications are blocked for this site, so notices show in the app.</p>
+        )}
+        {permission === 'unsupported' && (
+          <p className="settings-hint">This browser can't show notifications, so notices show in the app.</p>
+        )}
+
+        <div className="settings-actions">
+          {saved && <span className="saved-note">Saved</span>}
+          <button type="submit" className="primary">Save</button>
+        </div>
+      </form>
+
+      <DataTransfer />
+
+      <style>{`
+        .settings-container {
+          display: flex;
+          flex-direction: column;
+          gap: 20px;
+          padding-bottom: 40px;
+          max-width: 480px;
+        }
+
+        .settings-card {
+          background: var(--card-bg);
+          border-radius: var(--radius-lg);
+          padding: 20px;
+          box-shadow: var(--shadow-sm);
+        }
+
+        .settings-card h2 {
+          font-size: 1.1rem;
+          margin-bottom: 16px;
+        }
+
+        .settings-card h2.settings-section {
+          margin-top: 24px;
+        }
+
+        .settings-card .form-group {
+          margin-bottom: 16px;
+        }
+
+        .settings-card .form-group label {
+          display: block;
+          margin-bottom: 8px;
+          font-weight: 500;
+          color: var(--text-secondary);
+        }
+
+        .settings-card .form-group label.check-label {
+          display: flex;
+          align-items: center;
+          gap: 8px;
+          margin: 0;
+          font-weight: 400;
+          color: var(--text-primary);
+        }
+
+        .milestone-options {
+          display: flex;
+          gap: 8px;
+        }
+
+        .milestone-opt {
+          flex: 1;
+          padding: 8px;
+          border: 1px solid rgba(0,0,0,0.1);
+          border-radius: var(--radius-md);
+          background: none;
+          color: var(--text-secondary);
+          cursor: pointer;
+        }
+
+        .milestone-opt.selected {
+          border-color: var(--accent-blue);
+          color: var(--accent-blue);
+          font-weight: 600;
+        }
+
+        .link-btn {
+          background: none;
+          border: none;
+          color: var(--accent-blue);
+          cursor: pointer;
+          font-size: 0.85rem;
+          padding: 6px 0 0;
+        }
+
+        .settings-hint {
+          color: var(--text-secondary);
+          font-size: 0.9rem;
+        }
+
+        .settings-actions {
+          display: flex;
+          justify-content: flex-end;
+          align-items: center;
+          gap: 12px;
+          margin-top: 16px;
+        }
+
+        .settings-actions button.primary {
+          padding: 10px 20px;
+          border-radius: var(--radius-md);
+          border: none;
+          font-size: 1rem;
+          cursor: pointer;
+          background: var(--accent-blue);
+          color: white;
+          font-weight: 600;
+        }
+
+        .saved-note {
+          color: var(--accent-green);
+          font-size: 0.9rem;
+        }
+      `}</style>
+    </div>
+  );
+};
+
+export default Settings;
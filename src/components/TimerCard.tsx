@@ -1,19 +1,43 @@
 import React from 'react';
-import type { Timer } from '../types';
+import type { DayResult, Timer } from '../types';
 import { useTimers } from '../store/TimerContext';
+import { goalStreak } from '../lib/streaks';
+import { goalPace } from '../lib/pacing';
+import { dailyResults } from '../lib/entries';
+import { getWeekStart, weekDays, WEEKDAY_NAMES } from '../lib/week';
+import { useNow } from '../store/useNow';
+import { PHASE_LABELS, phaseSeconds } from '../lib/pomodoro';
 
 interface TimerCardProps {
   timer: Timer;
   onLogTime: () => void;
+  onEdit: () => void;
+  onDelete: () => void;
 }
 
-const TimerCard: React.FC<TimerCardProps> = ({ timer, onLogTime }) => {
-  const { toggleTimer, deleteTimer } = useTimers();
+const TimerCard: React.FC<TimerCardProps> = ({ timer, onLogTime, onEdit, onDelete }) => {
+  const { toggleTimer, skipInterval, timers, archivedTimers, history, entries, settings } = useTimers();
+  const now = useNow(60_000);
 
   const isStopwatch = timer.type === 'stopwatch';
+  const isDaily = timer.type === 'daily';
+  const isPomodoro = timer.type === 'pomodoro';
+  const streak = isStopwatch || isPomodoro ? undefined : goalStreak(timer, history);
+
+  // Pomodoros count down the current interval and name the timer their work goes to
+  const phase = timer.phase ?? 'work';
+  const target = timer.pomodoro && [...timers, ...archivedTimers].find(t => t.id === timer.pomodoro!.targetId);
+
+  // Daily quotas count down today's target and show how each day of the week went
+  const weekStart = getWeekStart(new Date(now), settings).getTime();
+  const days = isDaily ? dailyResults(timer, entries, weekStart, settings, now) : undefined;
+  const todayIndex = weekDays(weekStart, settings).filter(dayStart => dayStart <= now).length - 1;
+  const goal = days ? days[todayIndex].targetSeconds
+    : timer.pomodoro ? phaseSeconds(timer.pomodoro, phase)
+    : timer.totalSeconds;
 
   // For goal: progress is completed / total. For stopwatch: no progress bar really, or maybe just 100%?
-  const progress = isStopwatch ? 0 : (timer.totalSeconds - timer.remainingSeconds) / timer.totalSeconds;
+  const progress = isStopwatch || goal === 0 ? 0 : (goal - timer.remainingSeconds) / goal;
   const percentage = Math.min(100, Math.max(0, progress * 100)); // Still use this for goal
 
   const formatTime = (seconds: number) => {
@@ -24,19 +48,46 @@ const TimerCard: React.FC<TimerCardProps> = ({ timer, onLogTime }) => {
     return `${m}m ${s}s`; // More precise for stopwatch
   };
 
+  // Goals in overtime count the surplus up from the goal
+  const surplus = !isStopwatch && timer.remainingSeconds < 0 ? -timer.remainingSeconds : 0;
+
   // Precise formatter for main display
   const mainTimeDisplay = () => {
-    const seconds = isStopwatch ? (timer.elapsedSeconds || 0) : timer.remainingSeconds;
+    const seconds = isStopwatch ? (timer.elapsedSeconds || 0) : surplus || timer.remainingSeconds;
     const h = Math.floor(seconds / 3600);
     const m = Math.floor((seconds % 3600) / 60);
     const s = seconds % 60; // Just seconds
+    const sign = surplus > 0 ? '+' : '';
 
     // For stopwatch, maybe always show seconds?
-    if (h > 0) return <>{h}h {m}m</>;
-    return <>{m}m <span style={{ fontSize: '0.8em', opacity: 0.8 }}>{s}s</span></>;
+    if (h > 0) return <>{sign}{h}h {m}m</>;
+    return <>{sign}{m}m <span style={{ fontSize: '0.8em', opacity: 0.8 }}>{s}s</span></>;
+  };
+
+  const total = formatTime(goal);
+  const totalLabel = () => {
+    if (isDaily && goal === 0) return 'No quota today';
+    if (isPomodoro) return `/ ${total} ${PHASE_LABELS[phase].toLowerCase()}`;
+    const label = surplus > 0 ? `over ${total}` : `/ ${total}`;
+    return isDaily ? `${label} today` : label;
+  };
+
+  const dayStatus = (day: DayResult, i: number) => {
+    if (i > todayIndex) return 'upcoming';
+    if (day.targetSeconds === 0) return 'rest';
+    // Today's counters are live, the strip only refreshes every minute
+    const completed = i === todayIndex ? timer.elapsedSeconds : day.completedSeconds;
+    if (completed >= day.targetSeconds) return 'met';
+    return i < todayIndex ? 'missed' : 'today';
   };
 
-  const total = formatTime(timer.totalSeconds);
+  // Pacing only matters while a weekly goal is still open
+  const pace = timer.type === 'goal' && timer.remainingSeconds > 0 ? goalPace(timer, settings, now) : undefined;
+  const paceStatus = () => {
+    if (!pace) return '';
+    if (Math.abs(pace.aheadSeconds) < 60) return 'On track';
+    return `${formatTime(Math.abs(pace.aheadSeconds))} ${pace.aheadSeconds > 0 ? 'ahead' : 'behind'}`;
+  };
 
   return (
     <div
@@ -45,20 +96,29 @@ const TimerCard: React.FC<TimerCardProps> = ({ timer, onLogTime }) => {
     >
       <div className="timer-header">
         <h3>{timer.title}</h3>
-        <button
-          className="btn-icon delete-btn"
-          onClick={(e) => { e.stopPropagation(); deleteTimer(timer.id); }}
-          aria-label="Delete timer"
-        >
-          &times;
-        </button>
+        <div className="card-actions">
+          <button
+            className="btn-icon edit-btn"
+            onClick={(e) => { e.stopPropagation(); onEdit(); }}
+            aria-label="Edit timer"
+          >
+            &#9998;
+          </button>
+          <button
+            className="btn-icon delete-btn"
+            onClick={(e) => { e.stopPropagation(); onDelete(); }}
+            aria-label="Delete timer"
+          >
+            &times;
+          </button>
+        </div>
       </div>
 
       <div className="timer-body">
         <div className="time-display">
-          <span className="remaining">{mainTimeDisplay()}</span>
+          <span className={`remaining ${surplus > 0 ? 'overtime' : ''}`}>{mainTimeDisplay()}</span>
           {!isStopwatch && (
-            <span className="total">/ {total}</span>
+            <span className="total">{totalLabel()}</span>
           )}
         </div>
 
@@ -74,19 +134,89 @@ const TimerCard: React.FC<TimerCardProps> = ({ timer, onLogTime }) => {
         {isStopwatch && (
           <div style={{ height: '8px' }} /> /* Spacer to match layout */
         )}
+
+        {days && (
+          <div className="day-strip">
+            {days.map((day, i) => {
+              const name = WEEKDAY_NAMES[(settings.weekStartDay + i) % 7];
+              return (
+                <span
+                  key={i}
+                  className={`day-cell ${dayStatus(day, i)} ${i === todayIndex ? 'current' : ''}`}
+                  title={day.targetSeconds > 0
+                    ? `${name}: ${formatTime(i === todayIndex ? timer.elapsedSeconds : day.completedSeconds)} of ${formatTime(day.targetSeconds)}`
+                    : `${name}: no quota`}
+                >
+                  {name[0]}
+                </span>
+              );
+            })}
+          </div>
+        )}
+
+        {pace && (
+          <div className="goal-meta pace">
+            <span className={pace.aheadSeconds <= -60 ? 'behind' : ''}>{paceStatus()}</span>
+            {pace.neededPerDay !== undefined && (
+              <span className="streak" title={`Needed on each of the ${pace.remainingDays} work days left`}>
+                {formatTime(pace.neededPerDay)}/day
+              </span>
+            )}
+            {pace.projectedDay !== undefined ? (
+              <span className="streak">
+                Done {new Date(pace.projectedDay).toLocaleDateString(undefined, { weekday: 'short', timeZone: settings.timezone })}
+              </span>
+            ) : pace.expectedSeconds > 0 && (
+              <span className="streak">Not this week at this rate</span>
+            )}
+          </div>
+        )}
+
+        {isPomodoro && (
+          <div className="goal-meta">
+            <span className={`goal-badge phase-${phase}`}>{PHASE_LABELS[phase]}</span>
+            <span className="streak" title="Work intervals finished">
+              {timer.cycles ?? 0} {timer.cycles === 1 ? 'cycle' : 'cycles'}
+            </span>
+            <span className="streak">{target ? `for ${target.title}` : 'Timer it credited is gone'}</span>
+          </div>
+        )}
+
+        {streak && (streak.metThisWeek || streak.longest > 0) && (
+          <div className="goal-meta">
+            {streak.metThisWeek && <span className="goal-badge">&#10003; Goal met</span>}
+            {streak.current > 0 && (
+              <span className="streak" title={`Goal met ${streak.current} ${streak.current === 1 ? 'week' : 'weeks'} in a row`}>
+                {streak.current} wk streak
+              </span>
+            )}
+            {streak.longest > 0 && <span className="streak best">Best {streak.longest}</span>}
+          </div>
+        )}
       </div>
 
       <div className="controls-row">
         <button className="toggle-btn" onClick={() => toggleTimer(timer.id)}>
           {timer.isRunning ? 'Pause' : 'Start'}
         </button>
-        <button
-          className="log-btn"
-          onClick={(e) => { e.stopPropagation(); onLogTime(); }}
-          aria-label="Log time manually"
-        >
-          +
-        </button>
+        {isPomodoro ? (
+          <button
+            className="log-btn"
+            onClick={(e) => { e.stopPropagation(); skipInterval(timer.id); }}
+            aria-label="Skip to the next interval"
+            title="Skip to the next interval"
+          >
+            &#8677;
+          </button>
+        ) : (
+          <button
+            className="log-btn"
+            onClick={(e) => { e.stopPropagation(); onLogTime(); }}
+            aria-label="Log time manually"
+          >
+            +
+          </button>
+        )}
       </div>
 
       <style>{`
@@ -142,7 +272,14 @@ const TimerCard: React.FC<TimerCardProps> = ({ timer, onLogTime }) => {
             font-size: 1.1rem;
         }
 
-        .btn-icon.delete-btn {
+        .card-actions {
+          display: flex;
+          align-items: center;
+          flex-shrink: 0;
+        }
+
+        .btn-icon.delete-btn,
+        .btn-icon.edit-btn {
           background: none;
           border: none;
           color: var(--text-secondary);
@@ -153,6 +290,8 @@ const TimerCard: React.FC<TimerCardProps> = ({ timer, onLogTime }) => {
           opacity: 0.6;
         }
 
+        .btn-icon.edit-btn { font-size: 1rem; }
+        .btn-icon.edit-btn:hover { opacity: 1; color: var(--text-primary); }
         .btn-icon.delete-btn:hover { opacity: 1; color: var(--destructive); }
         
         .timer-body {
@@ -178,6 +317,10 @@ const TimerCard: React.FC<TimerCardProps> = ({ timer, onLogTime }) => {
           line-height: 1;
         }
         
+        .remaining.overtime {
+          color: var(--timer-color);
+        }
+
         .size-medium .remaining,
         .size-large .remaining {
              font-size: 1.5rem;
@@ -202,6 +345,56 @@ const TimerCard: React.FC<TimerCardProps> = ({ timer, onLogTime }) => {
           transition: width 1s linear;
         }
 
+        .goal-meta {
+          display: flex;
+          flex-wrap: wrap;
+          align-items: center;
+          gap: 4px 8px;
+          font-size: 0.75rem;
+          color: var(--text-secondary);
+        }
+
+        .goal-badge {
+          background: var(--timer-color);
+          color: white;
+          font-weight: 600;
+          padding: 2px 8px;
+          border-radius: 10px;
+          white-space: nowrap;
+        }
+
+        .streak {
+          white-space: nowrap;
+          font-variant-numeric: tabular-nums;
+        }
+
+        .goal-meta.pace { margin-top: 2px; }
+        .goal-badge.phase-break, .goal-badge.phase-longBreak { background: var(--accent-green); }
+
+        .day-strip {
+          display: grid;
+          grid-template-columns: repeat(7, 1fr);
+          gap: 3px;
+          margin-top: 6px;
+        }
+
+        .day-cell {
+          font-size: 0.65rem;
+          font-weight: 600;
+          text-align: center;
+          line-height: 18px;
+          border-radius: 4px;
+          background: rgba(0,0,0,0.05);
+          color: var(--text-secondary);
+        }
+
+        .day-cell.met { background: var(--timer-color); color: white; }
+        .day-cell.missed { background: rgba(255, 59, 48, 0.15); color: var(--accent-red); }
+        .day-cell.rest, .day-cell.upcoming { opacity: 0.5; }
+        .day-cell.rest { background: none; }
+        .day-cell.current { box-shadow: inset 0 0 0 1.5px var(--timer-color); }
+        .goal-meta.pace .behind { color: var(--accent-red); }
+
         .controls-row {
           display: flex;
           gap: 8px;
@@ -0,0 +1,53 @@
+import React from 'react';
+
+interface UndoToastProps {
+  message: string;
+  onUndo: () => void;
+}
+
+const UndoToast: React.FC<UndoToastProps> = ({ message, onUndo }) => {
+  return (
+    <div className="undo-toast" role="status">
+      <span>{message}</span>
+      <button type="button" onClick={onUndo}>Undo</button>
+
+      <style>{`
+        .undo-toast {
+          position: fixed;
+          left: 50%;
+          bottom: 24px;
+          transform: translateX(-50%);
+          display: flex;
+          align-items: center;
+          gap: 16px;
+          background: var(--text-primary);
+          color: var(--card-bg);
+          padding: 12px 16px 12px 20px;
+          border-radius: var(--radius-md);
+          box-shadow: var(--shadow-md);
+          z-index: 90;
+          animation: slideup 0.3s;
+          max-width: calc(100% - 40px);
+        }
+
+        .undo-toast span {
+          overflow: hidden;
+          text-overflow: ellipsis;
+          white-space: nowrap;
+        }
+
+        .undo-toast button {
+          background: none;
+          border: none;
+          color: var(--accent-blue);
+          font-weight: 600;
+          font-size: 0.95rem;
+          cursor: pointer;
+          padding: 4px;
+        }
+      `}</style>
+    </div>
+  );
+};
+
+export default UndoToast;
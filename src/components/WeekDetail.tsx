@@ -0,0 +1,308 @@
+import React, { useState } from 'react';
+import { useTimers } from '../store/TimerContext';
+import { addWeeks, formatWeekLabel, weekDays, zonedDateInput } from '../lib/week';
+import { weekBreakdown } from '../lib/breakdown';
+import { isGoalMet } from '../lib/rollover';
+import { sessionsIcs } from '../lib/ical';
+import { downloadFile } from '../lib/download';
+import { formatDuration } from '../lib/format';
+import type { DayResult, TimeEntry, WeekHistory } from '../types';
+
+interface WeekDetailProps {
+  week: WeekHistory;
+  onBack: () => void;
+}
+
+const WeekDetail: React.FC<WeekDetailProps> = ({ week, onBack }) => {
+  const { timers, archivedTimers, entries, settings } = useTimers();
+  const [openActivity, setOpenActivity] = useState<number | null>(null);
+
+  const weekStart = new Date(week.weekStart).getTime();
+  const days = weekDays(weekStart, settings);
+  const activities = weekBreakdown(week, [...timers, ...archivedTimers], entries, settings);
+
+  const dayTotals = days.map((_, i) => activities.reduce((sum, a) => sum + Math.max(0, a.daily[i]), 0));
+  const maxDay = Math.max(1, ...dayTotals);
+
+  const dayLabel = (dayStart: number) =>
+    new Date(dayStart).toLocaleDateString(undefined, { weekday: 'short', timeZone: settings.timezone });
+  const timeLabel = (ms: number) =>
+    new Date(ms).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit', timeZone: settings.timezone });
+  const dateLabel = (ms: number) =>
+    new Date(ms).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric', timeZone: settings.timezone });
+
+  // Sessions clipped to the week, matching its totals
+  const handleExport = () => {
+    const allTimers = [...timers, ...archivedTimers];
+    const weekEnd = addWeeks(new Date(weekStart), 1, settings).getTime();
+    const ics = sessionsIcs(entries, allTimers, settings, { from: weekStart, to: weekEnd });
+    downloadFile(`weektime-week-${zonedDateInput(weekStart, settings)}.ics`, ics, 'text/calendar;charset=utf-8');
+  };
+
+  // A daily quota's day: met, missed, or no quota that day
+  const dayStatus = (day?: DayResult) => {
+    if (!day || day.targetSeconds === 0) return '';
+    return day.completedSeconds >= day.targetSeconds ? 'met' : 'missed';
+  };
+
+  const sessionLabel = (e: TimeEntry) => {
+    if (e.source === 'correction') {
+      return <>{dateLabel(e.startedAt)} · correction {(e.adjustSeconds ?? 0) >= 0 ? '+' : ''}{formatDuration(e.adjustSeconds ?? 0)}{e.reason && <> · {e.reason}</>}</>;
+    }
+    const end = e.endedAt;
+    return (
+      <>
+        {dateLabel(e.startedAt)} · {timeLabel(e.startedAt)}–{end !== undefined ? timeLabel(end) : 'running'}
+        {end !== undefined && <> · {formatDuration(Math.floor((end - e.startedAt) / 1000))}</>}
+        {e.source === 'manual' && <> · logged</>}
+      </>
+    );
+  };
+
+  return (
+    <div className="week-detail">
+      <div className="week-detail-header">
+        <div className="week-detail-nav">
+          <button className="back-btn" onClick={onBack}>‹ All weeks</button>
+          <button className="back-btn" onClick={handleExport}>Export to calendar</button>
+        </div>
+        <h2>Week of {formatWeekLabel(week.weekStart, settings)}</h2>
+      </div>
+
+      <div className="week-chart">
+        {days.map((dayStart, i) => (
+          <div key={dayStart} className="chart-day">
+            <div className="chart-bar" title={formatDuration(dayTotals[i])}>
+              {activities.map((a, idx) => a.daily[i] > 0 && (
+                <div
+                  key={idx}
+                  className="chart-segment"
+                  style={{ height: `${(a.daily[i] / maxDay) * 100}%`, backgroundColor: a.item.color }}
+                  title={`${a.item.title}: ${formatDuration(a.daily[i])}`}
+                />
+              ))}
+            </div>
+            <span className="chart-total">{dayTotals[i] > 0 ? formatDuration(dayTotals[i]) : ''}</span>
+            <span className="chart-label">{dayLabel(dayStart)}</span>
+          </div>
+        ))}
+      </div>
+
+      <div className="activity-list">
+        {activities.map((a, idx) => {
+          const isGoal = a.item.type !== 'stopwatch';
+          const met = isGoalMet(a.item);
+          // Daily quotas are met day by day
+          const quotaDays = a.item.days?.filter(d => d.targetSeconds > 0);
+          const isOpen = openActivity === idx;
+          return (
+            <div key={idx} className="activity">
+              <button className="activity-row" onClick={() => setOpenActivity(isOpen ? null : idx)}>
+                <div className="history-item-info">
+                  <div className="color-dot" style={{ backgroundColor: a.item.color }} />
+                  <span className="item-title">{a.item.title}</span>
+                  {isGoal && (
+                    <span className={`goal-status ${met ? 'met' : 'missed'}`}>
+                      {quotaDays
+                        ? `${quotaDays.filter(d => d.completedSeconds >= d.targetSeconds).length} of ${quotaDays.length} days met`
+                        : !met
+                        ? `${formatDuration(a.item.totalSeconds - a.item.completedSeconds)} short`
+                        : a.item.completedSeconds > a.item.totalSeconds
+                          ? `Goal met +${formatDuration(a.item.completedSeconds - a.item.totalSeconds)}`
+                          : 'Goal met'}
+                    </span>
+                  )}
+                </div>
+                <div className="item-stats">
+                  <span className="completed">{formatDuration(a.item.completedSeconds)}</span>
+                  {isGoal && <span className="total">/ {formatDuration(a.item.totalSeconds)}</span>}
+                </div>
+              </button>
+
+              {isOpen && (
+                <div className="activity-detail">
+                  <div className="activity-days">
+                    {days.map((dayStart, i) => (
+                      <div key={dayStart} className={`activity-day ${dayStatus(a.item.days?.[i])}`}>
+                        <span className="chart-label">{dayLabel(dayStart)}</span>
+                        <span>{a.daily[i] !== 0 ? formatDuration(a.daily[i]) : '–'}</span>
+                      </div>
+                    ))}
+                  </div>
+                  {a.sessions.length > 0 ? (
+                    <ul className="session-list">
+                      {a.sessions.map(e => <li key={e.id}>{sessionLabel(e)}</li>)}
+                    </ul>
+                  ) : (
+                    <p className="no-sessions">
+                      {a.timer ? 'No sessions were recorded for this week.' : 'This timer was deleted, so its sessions are gone.'}
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <style>{`
+        .week-detail {
+          background: var(--card-bg);
+          border-radius: var(--radius-lg);
+          padding: 20px;
+          box-shadow: var(--shadow-sm);
+          margin-bottom: 40px;
+        }
+
+        .week-detail-header {
+          margin-bottom: 20px;
+        }
+
+        .week-detail-nav {
+          display: flex;
+          justify-content: space-between;
+        }
+
+        .week-detail-header h2 {
+          font-size: 1.25rem;
+          margin: 4px 0 0;
+        }
+
+        .back-btn {
+          background: none;
+          border: none;
+          color: var(--accent-blue);
+          cursor: pointer;
+          font-size: 0.95rem;
+          padding: 0;
+        }
+
+        .week-chart {
+          display: grid;
+          grid-template-columns: repeat(7, 1fr);
+          gap: 8px;
+          margin-bottom: 24px;
+        }
+
+        .chart-day {
+          display: flex;
+          flex-direction: column;
+          align-items: center;
+          gap: 4px;
+        }
+
+        .chart-bar {
+          height: 140px;
+          width: 100%;
+          max-width: 40px;
+          display: flex;
+          flex-direction: column-reverse;
+          background: rgba(0,0,0,0.03);
+          border-radius: 6px;
+          overflow: hidden;
+        }
+
+        .chart-segment {
+          width: 100%;
+        }
+
+        .chart-total {
+          font-size: 0.7rem;
+          color: var(--text-secondary);
+          font-variant-numeric: tabular-nums;
+          min-height: 1em;
+          white-space: nowrap;
+        }
+
+        .chart-label {
+          font-size: 0.8rem;
+          color: var(--text-secondary);
+        }
+
+        .activity-list {
+          display: flex;
+          flex-direction: column;
+        }
+
+        .activity + .activity {
+          border-top: 1px solid rgba(0,0,0,0.05);
+        }
+
+        .activity-row {
+          width: 100%;
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+          background: none;
+          border: none;
+          padding: 12px 0;
+          cursor: pointer;
+          color: var(--text-primary);
+          font-size: 1rem;
+          text-align: left;
+        }
+
+        .goal-status {
+          font-size: 0.75rem;
+          padding: 2px 8px;
+          border-radius: 10px;
+        }
+
+        .goal-status.met {
+          background: rgba(52, 199, 89, 0.15);
+          color: var(--accent-green);
+        }
+
+        .goal-status.missed {
+          background: rgba(0,0,0,0.05);
+          color: var(--text-secondary);
+        }
+
+        .activity-detail {
+          padding: 0 0 16px 24px;
+        }
+
+        .activity-days {
+          display: grid;
+          grid-template-columns: repeat(7, 1fr);
+          gap: 4px;
+          margin-bottom: 12px;
+          font-size: 0.85rem;
+          font-variant-numeric: tabular-nums;
+        }
+
+        .activity-day {
+          display: flex;
+          flex-direction: column;
+          align-items: center;
+          border-radius: 6px;
+        }
+
+        .activity-day.met {
+          background: rgba(52, 199, 89, 0.15);
+          color: var(--accent-green);
+        }
+
+        .activity-day.missed {
+          background: rgba(255, 59, 48, 0.1);
+        }
+
+        .session-list {
+          list-style: none;
+          font-size: 0.85rem;
+          color: var(--text-secondary);
+          display: flex;
+          flex-direction: column;
+          gap: 4px;
+        }
+
+        .no-sessions {
+          font-size: 0.85rem;
+          color: var(--text-secondary);
+        }
+      `}</style>
+    </div>
+  );
+};
+
+export default WeekDetail;
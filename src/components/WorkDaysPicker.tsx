@@ -0,0 +1,38 @@
+import React from 'react';
+import { useTimers } from '../store/TimerContext';
+import { WEEKDAY_NAMES } from '../lib/week';
+
+interface WorkDaysPickerProps {
+  value: number[];
+  onChange: (days: number[]) => void;
+}
+
+// Weekday toggles in the order of the user's week
+const WorkDaysPicker: React.FC<WorkDaysPickerProps> = ({ value, onChange }) => {
+  const { settings } = useTimers();
+  const order = Array.from({ length: 7 }, (_, i) => (settings.weekStartDay + i) % 7);
+
+  const toggle = (day: number) => {
+    const next = value.includes(day) ? value.filter(d => d !== day) : [...value, day];
+    // At least one day, or there is nothing to pace against
+    if (next.length > 0) onChange(next.sort((a, b) => a - b));
+  };
+
+  return (
+    <div className="size-options">
+      {order.map(day => (
+        <button
+          key={day}
+          type="button"
+          className={`size-opt ${value.includes(day) ? 'selected' : ''}`}
+          onClick={() => toggle(day)}
+          title={WEEKDAY_NAMES[day]}
+        >
+          {WEEKDAY_NAMES[day].slice(0, 2)}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default WorkDaysPicker;
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { activityTrends, overallHitRate, recentWeeks } from './analytics';
+import type { WeekHistory } from '../types';
+
+const week = (weekStart: string, items: [title: string, completedHours: number][]): WeekHistory => ({
+    id: weekStart,
+    weekStart,
+    timersSnapshot: items.map(([title, hours]) => ({
+        title,
+        type: title === 'Cooking' ? 'stopwatch' : 'goal',
+        totalSeconds: title === 'Cooking' ? 0 : 10 * 3600,
+        completedSeconds: hours * 3600,
+        color: '#007aff',
+    })),
+});
+
+// Newest first, as the store keeps it
+const history: WeekHistory[] = [
+    week('2025-01-27T00:00:00.000Z', [['Work', 12], ['Cooking', 2]]),
+    week('2025-01-20T00:00:00.000Z', [['Work', 0]]),
+    week('2025-01-13T00:00:00.000Z', [['Work', 10], ['Cooking', 4]]),
+    week('2025-01-06T00:00:00.000Z', [['Work', 8]]),
+];
+
+describe('recentWeeks', () => {
+    it('returns the latest weeks oldest first', () => {
+        expect(recentWeeks(history, 2).map(w => w.weekStart)).toEqual(['2025-01-20T00:00:00.000Z', '2025-01-27T00:00:00.000Z']);
+        expect(recentWeeks(history)).toHaveLength(4);
+    });
+});
+
+describe('activityTrends', () => {
+    const [work, cooking] = activityTrends(recentWeeks(history), 2);
+
+    it('totals, averages and picks the best and worst weeks', () => {
+        expect(work.totalSeconds).toBe(30 * 3600);
+        expect(work.averageSeconds).toBe(7.5 * 3600);
+        expect(work.best?.weekStart).toBe('2025-01-27T00:00:00.000Z');
+        expect(work.worst?.completedSeconds).toBe(0);
+    });
+
+    it('computes the goal hit rate for goals only', () => {
+        expect(work.hitRate).toBe(0.5);
+        expect(cooking.hitRate).toBeUndefined();
+    });
+
+    it('leaves gaps for weeks an activity was not tracked and averages over tracked weeks', () => {
+        expect(cooking.weeks.map(p => p && p.completedSeconds / 3600)).toEqual([null, 4, null, 2]);
+        expect(cooking.averageSeconds).toBe(3 * 3600);
+        expect(work.rollingAverage.map(s => s !== null ? s / 3600 : null)).toEqual([8, 9, 5, 6]);
+    });
+
+    it('combines goal weeks across activities', () => {
+        expect(overallHitRate([work, cooking])).toBe(0.5);
+    });
+});
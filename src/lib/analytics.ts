@@ -0,0 +1,105 @@
+import type { TimerType, WeekHistory } from '../types';
+import { isGoalMet } from './rollover';
+
+export interface WeekPoint {
+    weekStart: string;
+    completedSeconds: number;
+    totalSeconds: number;
+    met: boolean;                    // See isGoalMet
+}
+
+export interface ActivityTrend {
+    key: string;
+    title: string;
+    type: TimerType;
+    color: string;
+    weeks: (WeekPoint | null)[];     // Oldest first, one per week in range; null if the activity wasn't tracked that week
+    rollingAverage: (number | null)[];
+    totalSeconds: number;
+    averageSeconds: number;          // Per week the activity was tracked
+    hitRate?: number;                // Goals only: share of weeks the goal was met, 0..1
+    best?: WeekPoint;
+    worst?: WeekPoint;
+}
+
+export const ROLLING_WINDOW = 4;
+
+type SnapshotItem = WeekHistory['timersSnapshot'][number];
+
+// Activities are matched across weeks by timer id. Items archived before ids were recorded
+// join the timer that later weeks recorded under the same type and title.
+const activityKeys = (weeks: WeekHistory[]) => {
+    const legacyKey = (item: SnapshotItem) => `${item.type}:${item.title}`;
+    const idsByTitle = new Map<string, string>();
+    for (const item of weeks.flatMap(w => w.timersSnapshot)) {
+        if (item.timerId !== undefined) idsByTitle.set(legacyKey(item), item.timerId);
+    }
+    return (item: SnapshotItem) => item.timerId ?? idsByTitle.get(legacyKey(item)) ?? legacyKey(item);
+};
+
+// The most recent `count` archived weeks, oldest first. Rollover archives every week,
+// empty ones included, so this is a contiguous range.
+export const recentWeeks = (history: WeekHistory[], count?: number): WeekHistory[] => {
+    const sorted = [...history].sort((a, b) => new Date(a.weekStart).getTime() - new Date(b.weekStart).getTime());
+    return count === undefined ? sorted : sorted.slice(-count);
+};
+
+// Trailing average over the last `window` weeks the activity was tracked in
+const rolling = (weeks: (WeekPoint | null)[], window: number): (number | null)[] =>
+    weeks.map((point, i) => {
+        if (!point) return null;
+        const tracked = weeks.slice(0, i + 1).filter((p): p is WeekPoint => p !== null).slice(-window);
+        return tracked.reduce((sum, p) => sum + p.completedSeconds, 0) / tracked.length;
+    });
+
+export const activityTrends = (weeks: WeekHistory[], window: number = ROLLING_WINDOW): ActivityTrend[] => {
+    const activityKey = activityKeys(weeks);
+    const keys: string[] = [];
+    for (const week of weeks) {
+        for (const item of week.timersSnapshot) {
+            if (!keys.includes(activityKey(item))) keys.push(activityKey(item));
+        }
+    }
+
+    return keys.map(key => {
+        const points = weeks.map((week): WeekPoint | null => {
+            const item = week.timersSnapshot.find(i => activityKey(i) === key);
+            return item
+                ? { weekStart: week.weekStart, completedSeconds: item.completedSeconds, totalSeconds: item.totalSeconds, met: isGoalMet(item) }
+                : null;
+        });
+        const tracked = points.filter((p): p is WeekPoint => p !== null);
+        // Title, type and color as of the latest week the activity appears in
+        const latest = [...weeks].reverse().flatMap(w => w.timersSnapshot).find(i => activityKey(i) === key)!;
+
+        const totalSeconds = tracked.reduce((sum, p) => sum + p.completedSeconds, 0);
+        const byTime = [...tracked].sort((a, b) => a.completedSeconds - b.completedSeconds);
+        const goalWeeks = tracked.filter(p => p.totalSeconds > 0);
+
+        return {
+            key,
+            title: latest.title,
+            type: latest.type,
+            color: latest.color,
+            weeks: points,
+            rollingAverage: rolling(points, window),
+            totalSeconds,
+            averageSeconds: tracked.length > 0 ? totalSeconds / tracked.length : 0,
+            hitRate: latest.type !== 'stopwatch' && goalWeeks.length > 0
+                ? goalWeeks.filter(p => p.met).length / goalWeeks.length
+                : undefined,
+            best: byTime[byTime.length - 1],
+            worst: byTime[0],
+        };
+    });
+};
+
+// Share of all goal-weeks in range that were met, across activities
+export const overallHitRate = (trends: ActivityTrend[]): number | undefined => {
+    const goalWeeks = trends
+        .filter(t => t.type !== 'stopwatch')
+        .flatMap(t => t.weeks)
+        .filter((p): p is WeekPoint => p !== null && p.totalSeconds > 0);
+    if (goalWeeks.length === 0) return undefined;
+    return goalWeeks.filter(p => p.met).length / goalWeeks.length;
+};
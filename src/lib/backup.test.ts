@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { BACKUP_VERSION, createBackup, parseBackup, rekeyBackup } from './backup';
+import { BERLIN_NOW as NOW, BERLIN_SETTINGS, goal } from './testFixtures';
+import type { TimeEntry, UserSettings, WeekHistory } from '../types';
+
+const SETTINGS: UserSettings = { ...BERLIN_SETTINGS, rolloverHour: 4 };
+
+const timer = goal({ totalSeconds: 36000, remainingSeconds: 36000 });
+
+const week: WeekHistory = {
+    id: 'h1',
+    weekStart: new Date(Date.UTC(2024, 11, 30, 3)).toISOString(),
+    timersSnapshot: [{ title: 'Work', type: 'goal', totalSeconds: 36000, completedSeconds: 1800, color: '#007aff' }],
+};
+
+const entry: TimeEntry = { id: 'e1', timerId: 'goal', startedAt: NOW - 3600000, endedAt: NOW, source: 'live' };
+
+describe('parseBackup', () => {
+    it('reads back what createBackup wrote', () => {
+        const backup = createBackup({ timers: [timer], history: [week], entries: [entry] }, SETTINGS, NOW);
+        expect(parseBackup(JSON.stringify(backup))).toEqual(backup);
+        expect(backup).toMatchObject({ app: 'weektime', version: BACKUP_VERSION, exportedAt: '2025-01-08T11:00:00.000Z' });
+    });
+
+    it('migrates version 1, which had no sessions or snapshot ids', () => {
+        const v1 = { app: 'weektime', version: 1, timers: [timer], history: [week], settings: SETTINGS };
+        const backup = parseBackup(JSON.stringify(v1));
+        expect(backup.version).toBe(BACKUP_VERSION);
+        expect(backup.entries).toEqual([]);
+        expect(backup.history[0].timersSnapshot[0].timerId).toBe('goal');
+    });
+
+    it('rejects files that are not backups, are damaged or come from a newer version', () => {
+        expect(() => parseBackup('not json')).toThrow('not a WeekTime backup');
+        expect(() => parseBackup(JSON.stringify({ timers: [] }))).toThrow('not a WeekTime backup');
+        expect(() => parseBackup(JSON.stringify({ app: 'weektime', version: BACKUP_VERSION + 1 }))).toThrow('newer version');
+
+        const backup = createBackup({ timers: [timer], history: [week], entries: [entry] }, SETTINGS, NOW);
+        expect(() => parseBackup(JSON.stringify({ ...backup, entries: [{ ...entry, timerId: 'gone' }] }))).toThrow('belongs to no timer');
+        expect(() => parseBackup(JSON.stringify({ ...backup, settings: { ...SETTINGS, timezone: 'Mars/Base' } }))).toThrow('settings');
+        expect(() => parseBackup(JSON.stringify({ ...backup, history: [{ id: 'h' }] }))).toThrow('week');
+    });
+});
+
+describe('rekeyBackup', () => {
+    it('gives everything new ids and keeps references intact', () => {
+        const withId = { ...week, timersSnapshot: [{ ...week.timersSnapshot[0], timerId: 'goal' }] };
+        const data = rekeyBackup({ timers: [timer], history: [withId], entries: [entry] });
+
+        const id = data.timers[0].id;
+        expect(id).not.toBe('goal');
+        expect(data.entries[0]).toMatchObject({ timerId: id, startedAt: entry.startedAt });
+        expect(data.entries[0].id).not.toBe('e1');
+        expect(data.history[0].id).not.toBe('h1');
+        expect(data.history[0].timersSnapshot[0].timerId).toBe(id);
+    });
+});
@@ -0,0 +1,155 @@
+import type { Timer, TimeEntry, UserSettings, WeekHistory } from '../types';
+import type { TimerData } from './guestMerge';
+import { isValidTimeZone } from './week';
+import { isFocusMode } from './focus';
+import { isNotificationPrefs } from './notifications';
+import { repointPomodoro } from './pomodoro';
+
+// A whole account (or guest device) as one JSON document. The format is versioned so that
+// backups taken by older builds can still be restored:
+//   1: timers, history and settings, as stored before sessions were recorded
+//   2: adds sessions (`entries`) and timer ids on history snapshot items
+
+export const BACKUP_VERSION = 2;
+
+export interface Backup extends TimerData {
+    app: 'weektime';
+    version: typeof BACKUP_VERSION;
+    exportedAt: string;
+    settings: UserSettings;
+}
+
+export const createBackup = (data: TimerData, settings: UserSettings, now: number): Backup => ({
+    app: 'weektime',
+    version: BACKUP_VERSION,
+    exportedAt: new Date(now).toISOString(),
+    timers: data.timers,
+    history: data.history,
+    entries: data.entries,
+    settings,
+});
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const invalid = (what: string) => new Error(`This backup is damaged: ${what}.`);
+
+const checkTimer = (t: unknown): Timer => {
+    if (!isObject(t) || typeof t.id !== 'string' || typeof t.title !== 'string' || typeof t.totalSeconds !== 'number') {
+        throw invalid('a timer is incomplete');
+    }
+    return t as unknown as Timer;
+};
+
+const checkWeek = (h: unknown): WeekHistory => {
+    if (!isObject(h) || typeof h.id !== 'string' || typeof h.weekStart !== 'string' || !Array.isArray(h.timersSnapshot)
+        || Number.isNaN(new Date(h.weekStart).getTime())) {
+        throw invalid('a week is incomplete');
+    }
+    return h as unknown as WeekHistory;
+};
+
+const checkEntry = (e: unknown): TimeEntry => {
+    if (!isObject(e) || typeof e.id !== 'string' || typeof e.timerId !== 'string' || typeof e.startedAt !== 'number') {
+        throw invalid('a session is incomplete');
+    }
+    return e as unknown as TimeEntry;
+};
+
+const checkSettings = (s: unknown): UserSettings => {
+    if (!isObject(s) || typeof s.weekStartDay !== 'number' || typeof s.rolloverHour !== 'number'
+        || typeof s.timezone !== 'string' || !isValidTimeZone(s.timezone)) {
+        throw invalid('the settings are incomplete');
+    }
+    return {
+        weekStartDay: s.weekStartDay,
+        timezone: s.timezone,
+        rolloverHour: s.rolloverHour,
+        ...(isFocusMode(s.focusMode) ? { focusMode: s.focusMode } : {}),
+        ...(isNotificationPrefs(s.notifications) ? { notifications: s.notifications } : {}),
+        ...(typeof s.idleMinutes === 'number' ? { idleMinutes: s.idleMinutes } : {}),
+    };
+};
+
+// Version 1 → 2: no sessions yet, and snapshot items name their timer by title and type
+const fromVersion1 = (doc: Record<string, unknown>): Record<string, unknown> => {
+    const timers = Array.isArray(doc.timers) ? doc.timers.map(checkTimer) : [];
+    const history = Array.isArray(doc.history) ? doc.history.map(checkWeek) : [];
+    return {
+        ...doc,
+        version: 2,
+        entries: [],
+        history: history.map(week => ({
+            ...week,
+            timersSnapshot: week.timersSnapshot.map(item => ({
+                ...item,
+                timerId: timers.find(t => t.title === item.title && t.type === item.type)?.id,
+            })),
+        })),
+    };
+};
+
+const MIGRATIONS: Record<number, (doc: Record<string, unknown>) => Record<string, unknown>> = {
+    1: fromVersion1,
+};
+
+// Read a backup file, bringing older versions up to date. Throws with a message for the
+// user if the file isn't a backup or was made by a newer version of the app.
+export const parseBackup = (text: string): Backup => {
+    let doc: unknown;
+    try {
+        doc = JSON.parse(text);
+    } catch {
+        throw new Error('This file is not a WeekTime backup.');
+    }
+    if (!isObject(doc) || doc.app !== 'weektime' || typeof doc.version !== 'number') {
+        throw new Error('This file is not a WeekTime backup.');
+    }
+    if (doc.version > BACKUP_VERSION) {
+        throw new Error('This backup was made by a newer version of WeekTime. Update the app to restore it.');
+    }
+
+    let current: Record<string, unknown> = doc;
+    for (let version = doc.version; version < BACKUP_VERSION; version++) {
+        const migrate = MIGRATIONS[version];
+        if (!migrate) throw new Error(`Backups of version ${version} can't be restored.`);
+        current = migrate(current);
+    }
+
+    if (!Array.isArray(current.timers) || !Array.isArray(current.history) || !Array.isArray(current.entries)) {
+        throw invalid('timers, weeks or sessions are missing');
+    }
+    const timers = current.timers.map(checkTimer);
+    const entries = current.entries.map(checkEntry);
+    if (entries.some(e => !timers.some(t => t.id === e.timerId))) {
+        throw invalid('a session belongs to no timer');
+    }
+
+    return {
+        app: 'weektime',
+        version: BACKUP_VERSION,
+        exportedAt: typeof current.exportedAt === 'string' ? current.exportedAt : '',
+        timers,
+        history: current.history.map(checkWeek),
+        entries,
+        settings: checkSettings(current.settings),
+    };
+};
+
+// New ids for everything, with references updated to match. Restored rows then can't
+// collide with rows that still exist, e.g. when a backup is restored into a second account.
+export const rekeyBackup = (data: TimerData): TimerData => {
+    const ids = new Map(data.timers.map(t => [t.id, crypto.randomUUID()]));
+    return {
+        timers: data.timers.map(t => repointPomodoro({ ...t, id: ids.get(t.id)! }, ids)),
+        entries: data.entries.map(e => ({ ...e, id: crypto.randomUUID(), timerId: ids.get(e.timerId)! })),
+        history: data.history.map(h => ({
+            ...h,
+            id: crypto.randomUUID(),
+            timersSnapshot: h.timersSnapshot.map(item => ({
+                ...item,
+                timerId: item.timerId !== undefined ? ids.get(item.timerId) : undefined,
+            })),
+        })),
+    };
+};
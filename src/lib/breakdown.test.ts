@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { weekBreakdown } from './breakdown';
+import { weekDays } from './week';
+import { HOUR, SETTINGS as UTC_SETTINGS, goal } from './testFixtures';
+import type { TimeEntry, UserSettings, WeekHistory } from '../types';
+
+const SETTINGS: UserSettings = { ...UTC_SETTINGS, rolloverHour: 4 };
+
+// Monday 2025-01-06 04:00 UTC, the start of a week with a 04:00 rollover
+const WEEK_START = Date.UTC(2025, 0, 6, 4);
+const DAY = 24 * HOUR;
+
+const timer = goal({ totalSeconds: 4 * 3600, remainingSeconds: 4 * 3600 });
+
+const week: WeekHistory = {
+    id: 'h1',
+    weekStart: new Date(WEEK_START).toISOString(),
+    timersSnapshot: [
+        { title: 'Work', type: 'goal', totalSeconds: 4 * 3600, completedSeconds: 3 * 3600, color: '#007aff' },
+        { title: 'Gone', type: 'stopwatch', totalSeconds: 0, completedSeconds: 600, color: '#ff0000' },
+    ],
+};
+
+describe('weekDays', () => {
+    it('starts every day at the rollover hour', () => {
+        expect(weekDays(WEEK_START, SETTINGS)).toEqual(Array.from({ length: 7 }, (_, i) => WEEK_START + i * DAY));
+    });
+});
+
+describe('weekBreakdown', () => {
+    const entries: TimeEntry[] = [
+        // Tuesday 02:00-03:00 still belongs to Monday with a 04:00 rollover
+        { id: 'e1', timerId: 'goal', startedAt: WEEK_START + DAY - 2 * HOUR, endedAt: WEEK_START + DAY - HOUR, source: 'live' },
+        { id: 'e2', timerId: 'goal', startedAt: WEEK_START + 2 * DAY, endedAt: WEEK_START + 2 * DAY + 3 * HOUR, source: 'manual' },
+        { id: 'e3', timerId: 'goal', startedAt: WEEK_START + 2 * DAY + 5 * HOUR, endedAt: WEEK_START + 2 * DAY + 5 * HOUR, source: 'correction', adjustSeconds: -3600, reason: 'Double logged' },
+        // Following week
+        { id: 'e4', timerId: 'goal', startedAt: WEEK_START + 8 * DAY, endedAt: WEEK_START + 8 * DAY + HOUR, source: 'live' },
+    ];
+
+    it('splits each activity into days and lists its sessions', () => {
+        const [work] = weekBreakdown(week, [timer], entries, SETTINGS);
+        expect(work.timer).toBe(timer);
+        expect(work.daily).toEqual([3600, 0, 7200, 0, 0, 0, 0]);
+        expect(work.sessions.map(e => e.id)).toEqual(['e1', 'e2', 'e3']);
+    });
+
+    it('keeps activities whose timer no longer exists', () => {
+        const [, gone] = weekBreakdown(week, [timer], entries, SETTINGS);
+        expect(gone.timer).toBeUndefined();
+        expect(gone).toMatchObject({ daily: [0, 0, 0, 0, 0, 0, 0], sessions: [] });
+    });
+});
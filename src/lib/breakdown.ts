@@ -0,0 +1,43 @@
+import type { Timer, TimeEntry, UserSettings, WeekHistory } from '../types';
+import { completedSecondsBetween, overlapSeconds } from './entries';
+import { isSnapshotOf } from './rollover';
+import { addWeeks, weekDays } from './week';
+
+type SnapshotItem = WeekHistory['timersSnapshot'][number];
+
+export interface ActivityBreakdown {
+    item: SnapshotItem;
+    timer?: Timer;           // Undefined once the timer has been deleted for good
+    daily: number[];         // Seconds per day of the week, from the timer's entries
+    sessions: TimeEntry[];   // Entries overlapping the week, oldest first
+}
+
+export const findSnapshotTimer = (item: SnapshotItem, timers: Timer[]): Timer | undefined =>
+    timers.find(t => isSnapshotOf(item, t));
+
+export const weekBreakdown = (
+    week: WeekHistory,
+    timers: Timer[],
+    entries: TimeEntry[],
+    settings: UserSettings
+): ActivityBreakdown[] => {
+    const weekStart = new Date(week.weekStart).getTime();
+    const weekEnd = addWeeks(new Date(weekStart), 1, settings).getTime();
+    // Archived weeks have ended, so a session still open counts up to the week's end
+    const now = weekEnd;
+    const days = weekDays(weekStart, settings);
+
+    return week.timersSnapshot.map(item => {
+        const timer = findSnapshotTimer(item, timers);
+        if (!timer) return { item, daily: days.map(() => 0), sessions: [] };
+
+        const daily = days.map((dayStart, i) =>
+            completedSecondsBetween(entries, timer.id, dayStart, days[i + 1] ?? weekEnd, now));
+        const sessions = entries
+            // Non-zero rather than positive so corrections taking time back are listed too
+            .filter(e => e.timerId === timer.id && overlapSeconds(e, weekStart, weekEnd, now) !== 0)
+            .sort((a, b) => a.startedAt - b.startedAt);
+
+        return { item, timer, daily, sessions };
+    });
+};
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { historyCsv, parseCsv, planCsvImport, sessionsCsv, toCsv } from './csv';
+import { BERLIN_NOW as NOW, BERLIN_SETTINGS as SETTINGS, HOUR, goal } from './testFixtures';
+import type { TimeEntry, WeekHistory } from '../types';
+
+const timer = goal({ totalSeconds: 10 * 3600, remainingSeconds: 10 * 3600 });
+
+const header = 'Activity,Type,Goal (h),Start,End\r\n';
+
+describe('parseCsv', () => {
+    it('round-trips quoted cells', () => {
+        const rows = [['Title', 'Reason'], ['Work, deep', 'Said "hi"\nthen left'], ['', 'x']];
+        expect(parseCsv(toCsv(rows))).toEqual(rows);
+    });
+
+    it('drops blank lines and a byte order mark', () => {
+        expect(parseCsv('\uFEFFa,b\n\n1,2\n')).toEqual([['a', 'b'], ['1', '2']]);
+    });
+});
+
+describe('exports', () => {
+    it('writes one row per week and activity with hours and goal status', () => {
+        const week: WeekHistory = {
+            id: 'h1',
+            weekStart: new Date(Date.UTC(2024, 11, 29, 23)).toISOString(),
+            timersSnapshot: [
+                { timerId: 'goal', title: 'Work', type: 'goal', totalSeconds: 36000, completedSeconds: 36000, color: '#007aff' },
+                { title: 'Cooking', type: 'stopwatch', totalSeconds: 0, completedSeconds: 5400, color: '#ff0000' },
+            ],
+        };
+        expect(parseCsv(historyCsv([week], SETTINGS))).toEqual([
+            ['Week starting', 'Activity', 'Type', 'Goal (h)', 'Completed (h)', 'Goal met'],
+            ['2024-12-30', 'Work', 'goal', '10.00', '10.00', 'yes'],
+            ['2024-12-30', 'Cooking', 'stopwatch', '', '1.50', ''],
+        ]);
+    });
+
+    it('writes sessions in the configured timezone, corrections as signed hours', () => {
+        const entries: TimeEntry[] = [
+            { id: 'c', timerId: 'goal', startedAt: NOW, endedAt: NOW, source: 'correction', adjustSeconds: -1800, reason: 'Forgot, to stop' },
+            { id: 'a', timerId: 'goal', startedAt: NOW - 2 * HOUR, endedAt: NOW - HOUR, source: 'live' },
+        ];
+        expect(parseCsv(sessionsCsv(entries, [timer], SETTINGS)).slice(1)).toEqual([
+            ['Work', 'goal', '10.00', '2025-01-08 10:00', '2025-01-08 11:00', '1.00', 'live', ''],
+            ['Work', 'goal', '10.00', '2025-01-08 12:00', '2025-01-08 12:00', '-0.50', 'correction', 'Forgot, to stop'],
+        ]);
+    });
+});
+
+describe('planCsvImport', () => {
+    it('matches existing activities and creates unknown ones', () => {
+        const plan = planCsvImport(
+            header +
+            'work,,,2025-01-06 09:00,2025-01-06 11:30\r\n' +
+            'Reading,,,2025-01-07 20:00,2025-01-07 21:00\r\n' +
+            'Gym,goal,3,2025-01-07T07:00:00Z,2025-01-07T08:00:00Z\r\n',
+            [timer], [], SETTINGS, NOW
+        );
+        expect(plan.errors).toEqual([]);
+        expect(plan.timers.map(t => [t.title, t.type, t.totalSeconds])).toEqual([['Reading', 'stopwatch', 0], ['Gym', 'goal', 3 * 3600]]);
+        expect(plan.sessions[0]).toEqual({ timerId: 'goal', startedAt: Date.UTC(2025, 0, 6, 8), endedAt: Date.UTC(2025, 0, 6, 10, 30) });
+        expect(plan.sessions[2]).toMatchObject({ timerId: plan.timers[1].id, startedAt: Date.UTC(2025, 0, 7, 7) });
+    });
+
+    it('reports rows it cannot import', () => {
+        const plan = planCsvImport(
+            header +
+            ',,,2025-01-06 09:00,2025-01-06 10:00\r\n' +
+            'Work,timer,,2025-01-06 09:00,2025-01-06 10:00\r\n' +
+            'Work,,,yesterday,2025-01-06 10:00\r\n' +
+            'Work,,,2025-01-06 10:00,\r\n' +
+            'Work,,,2025-01-06 10:00,2025-01-06 09:00\r\n' +
+            'Work,,,2025-01-08 11:00,2025-01-08 13:00\r\n' +
+            'Chess,goal,,2025-01-06 09:00,2025-01-06 10:00\r\n',
+            [timer], [], SETTINGS, NOW
+        );
+        expect(plan.sessions).toEqual([]);
+        expect(plan.timers).toEqual([]);
+        expect(plan.errors.map(e => e.row)).toEqual([2, 3, 4, 5, 6, 7, 8]);
+    });
+
+    it('rejects files without the required columns', () => {
+        const plan = planCsvImport('Week starting,Activity\r\n2025-01-06,Work\r\n', [timer], [], SETTINGS, NOW);
+        expect(plan.errors).toEqual([{ row: 1, message: 'Missing columns: Start, End. Expected a sessions export.' }]);
+    });
+
+    it('skips sessions that are already tracked, so re-importing an export changes nothing', () => {
+        const entries: TimeEntry[] = [
+            { id: 'a', timerId: 'goal', startedAt: NOW - 2 * HOUR + 12345, endedAt: NOW - HOUR + 6789, source: 'live' },
+        ];
+        const plan = planCsvImport(sessionsCsv(entries, [timer], SETTINGS), [timer], entries, SETTINGS, NOW);
+        expect(plan.sessions).toEqual([]);
+        expect(plan.errors).toEqual([{ row: 2, message: 'Already tracked.' }]);
+    });
+});
@@ -0,0 +1,221 @@
+import type { ManualSession, Timer, TimeEntry, TimerType, UserSettings, WeekHistory } from '../types';
+import { isGoalMet } from './rollover';
+import { zonedDateInput, zonedDateTime, zonedTimeInput } from './week';
+
+// Spreadsheet exports of archived weeks and sessions, and the import of sessions back in.
+// Times are wall-clock 'YYYY-MM-DD HH:MM' in the configured timezone, durations in hours.
+// A daily activity's Goal (h) is per day in sessions and for the whole week in weeks.
+
+export const HISTORY_COLUMNS = ['Week starting', 'Activity', 'Type', 'Goal (h)', 'Completed (h)', 'Goal met'];
+export const SESSION_COLUMNS = ['Activity', 'Type', 'Goal (h)', 'Start', 'End', 'Hours', 'Source', 'Reason'];
+
+const NEW_TIMER_COLORS = ['#007aff', '#34c759', '#ff9500', '#af52de', '#ff2d55', '#5ac8fa'];
+
+const escapeCell = (value: string) => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const toCsv = (rows: string[][]): string =>
+    rows.map(row => row.map(escapeCell).join(',')).join('\r\n') + '\r\n';
+
+// RFC 4180: quoted cells may hold commas, newlines and doubled quotes. Blank lines are dropped.
+export const parseCsv = (text: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let quoted = false;
+
+    const endRow = () => {
+        row.push(cell);
+        if (row.some(c => c.trim() !== '')) rows.push(row);
+        row = [];
+        cell = '';
+    };
+
+    const source = text.replace(/^\uFEFF/, '');
+    for (let i = 0; i < source.length; i++) {
+        const char = source[i];
+        if (quoted) {
+            if (char === '"' && source[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            row.push(cell);
+            cell = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && source[i + 1] === '\n') i++;
+            endRow();
+        } else {
+            cell += char;
+        }
+    }
+    if (cell !== '' || row.length > 0) endRow();
+    return rows;
+};
+
+const hours = (seconds: number) => (seconds / 3600).toFixed(2);
+
+const dateTime = (instant: number, settings: UserSettings) =>
+    `${zonedDateInput(instant, settings)} ${zonedTimeInput(instant, settings)}`;
+
+// One row per week per activity, oldest week first
+export const historyCsv = (history: WeekHistory[], settings: UserSettings): string => {
+    const weeks = [...history].sort((a, b) => new Date(a.weekStart).getTime() - new Date(b.weekStart).getTime());
+    return toCsv([
+        HISTORY_COLUMNS,
+        ...weeks.flatMap(week => week.timersSnapshot.map(item => {
+            const isGoal = item.type !== 'stopwatch' && item.totalSeconds > 0;
+            return [
+                zonedDateInput(new Date(week.weekStart).getTime(), settings),
+                item.title,
+                item.type,
+                isGoal ? hours(item.totalSeconds) : '',
+                hours(item.completedSeconds),
+                isGoal ? (isGoalMet(item) ? 'yes' : 'no') : '',
+            ];
+        })),
+    ]);
+};
+
+// One row per session, oldest first. Corrections have no duration: Start and End are when
+// they were made and Hours is the signed change. Sessions still running have no End.
+export const sessionsCsv = (entries: TimeEntry[], timers: Timer[], settings: UserSettings): string =>
+    toCsv([
+        SESSION_COLUMNS,
+        ...[...entries]
+            .sort((a, b) => a.startedAt - b.startedAt)
+            .flatMap(e => {
+                const timer = timers.find(t => t.id === e.timerId);
+                if (!timer) return [];
+                const seconds = e.source === 'correction'
+                    ? e.adjustSeconds ?? 0
+                    : e.endedAt !== undefined ? Math.round((e.endedAt - e.startedAt) / 1000) : undefined;
+                return [[
+                    timer.title,
+                    timer.type,
+                    timer.type !== 'stopwatch' ? hours(timer.totalSeconds) : '',
+                    dateTime(e.startedAt, settings),
+                    e.endedAt !== undefined ? dateTime(e.endedAt, settings) : '',
+                    seconds !== undefined ? hours(seconds) : '',
+                    e.source,
+                    e.reason ?? '',
+                ]];
+            }),
+    ]);
+
+export interface CsvRowError {
+    row: number;        // 1-based, the header being row 1
+    message: string;
+}
+
+export interface CsvImportPlan {
+    timers: Timer[];            // Activities the file names that don't exist yet
+    sessions: ManualSession[];
+    errors: CsvRowError[];      // Rows that won't be imported, and why
+}
+
+// 'YYYY-MM-DD HH:MM[:SS]' in the configured timezone, or ISO 8601 with an explicit offset
+const parseDateTime = (value: string, settings: UserSettings): number | undefined => {
+    const local = value.trim().match(/^(\d{4}-\d{2}-\d{2})[ T](\d{1,2}:\d{2})(?::\d{2})?$/);
+    if (local) return zonedDateTime(local[1], local[2], settings);
+    if (/(Z|[+-]\d{2}:?\d{2})$/i.test(value.trim())) {
+        const instant = Date.parse(value.trim());
+        return Number.isNaN(instant) ? undefined : instant;
+    }
+    return undefined;
+};
+
+const sameTitle = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// Check a sessions CSV (the export's format; only Activity, Start and End are required)
+// against what is already tracked. Activities are matched by title, and type if given;
+// unknown ones are created, as time tracking unless the row gives a goal. Sessions that
+// are already tracked are skipped, so importing the same file twice changes nothing.
+export const planCsvImport = (
+    text: string,
+    timers: Timer[],
+    entries: TimeEntry[],
+    settings: UserSettings,
+    now: number
+): CsvImportPlan => {
+    const plan: CsvImportPlan = { timers: [], sessions: [], errors: [] };
+    const [header, ...rows] = parseCsv(text);
+    if (!header) {
+        plan.errors.push({ row: 1, message: 'The file is empty.' });
+        return plan;
+    }
+
+    const column = (name: string) => header.findIndex(h => sameTitle(h, name));
+    const columns = {
+        activity: column('Activity'),
+        type: column('Type'),
+        goal: column('Goal (h)'),
+        start: column('Start'),
+        end: column('End'),
+        source: column('Source'),
+    };
+    const missing = (['Activity', 'Start', 'End'] as const).filter(name => column(name) < 0);
+    if (missing.length > 0) {
+        plan.errors.push({ row: 1, message: `Missing column${missing.length > 1 ? 's' : ''}: ${missing.join(', ')}. Expected a sessions export.` });
+        return plan;
+    }
+
+    // Exports are to the minute, so that is what a session is recognised by
+    const sessionKey = (timerId: string, startedAt: number, endedAt?: number) =>
+        `${timerId}:${Math.floor(startedAt / 60000)}:${endedAt !== undefined ? Math.floor(endedAt / 60000) : ''}`;
+    const known = new Set(entries.map(e => sessionKey(e.timerId, e.startedAt, e.endedAt)));
+
+    rows.forEach((cells, i) => {
+        const row = i + 2;
+        const cell = (index: number) => (index >= 0 ? cells[index] ?? '' : '').trim();
+        const fail = (message: string) => { plan.errors.push({ row, message }); };
+
+        const title = cell(columns.activity);
+        const typeCell = cell(columns.type).toLowerCase();
+        const goalHours = parseFloat(cell(columns.goal));
+        const startedAt = parseDateTime(cell(columns.start), settings);
+        const endedAt = parseDateTime(cell(columns.end), settings);
+
+        if (!title) return fail('No activity.');
+        if (typeCell && typeCell !== 'goal' && typeCell !== 'stopwatch' && typeCell !== 'daily') return fail(`Unknown type "${cell(columns.type)}".`);
+        if (cell(columns.source).toLowerCase() === 'correction') return fail('Corrections are not imported.');
+        if (startedAt === undefined) return fail(`Can't read the start "${cell(columns.start)}".`);
+        if (endedAt === undefined) return fail(cell(columns.end) ? `Can't read the end "${cell(columns.end)}".` : 'The session has no end.');
+        if (endedAt <= startedAt) return fail('The session ends before it starts.');
+        if (endedAt > now) return fail("That session hasn't ended yet.");
+
+        const type = typeCell as TimerType | '';
+        // Pomodoros only pass their work on to other timers
+        const matches = (t: Timer) => t.type !== 'pomodoro' && sameTitle(t.title, title) && (!type || t.type === type);
+        let timer = timers.find(matches) ?? plan.timers.find(matches);
+        if (!timer) {
+            if (type === 'goal' && !(goalHours > 0)) return fail('A new goal activity needs a Goal (h).');
+            if (type === 'daily' && !(goalHours > 0)) return fail('A new daily activity needs its daily Goal (h).');
+            const totalSeconds = type === 'goal' || type === 'daily' ? Math.round(goalHours * 3600) : 0;
+            timer = {
+                id: crypto.randomUUID(),
+                type: type || 'stopwatch',
+                title,
+                totalSeconds,
+                remainingSeconds: totalSeconds,
+                elapsedSeconds: 0,
+                isRunning: false,
+                color: NEW_TIMER_COLORS[plan.timers.length % NEW_TIMER_COLORS.length],
+                size: 'small',
+            };
+            plan.timers.push(timer);
+        }
+
+        const key = sessionKey(timer.id, startedAt, endedAt);
+        if (known.has(key)) return fail('Already tracked.');
+        known.add(key);
+        plan.sessions.push({ timerId: timer.id, startedAt, endedAt });
+    });
+
+    return plan;
+};
@@ -0,0 +1,11 @@
+const STORAGE_KEY_DEVICE = 'weektime_device_id';
+
+// Stable per-browser id, used to break ties between writes made in the same millisecond.
+export const getDeviceId = (): string => {
+    let id = localStorage.getItem(STORAGE_KEY_DEVICE);
+    if (!id) {
+        id = crypto.randomUUID();
+        localStorage.setItem(STORAGE_KEY_DEVICE, id);
+    }
+    return id;
+};
@@ -0,0 +1,367 @@
+import { describe, expect, it } from 'vitest';
+import { advanceTimer, createTimerEngine } from './engine';
+import { completedSecondsBetween } from './entries';
+import { isGoalMet } from './rollover';
+import { HOUR, MONDAY, NOW, SETTINGS, goal, stopwatch } from './testFixtures';
+import type { Timer, TimeEntry, WeekHistory } from '../types';
+
+const NEXT_MONDAY = Date.UTC(2025, 0, 20);
+
+const fakeClock = (start: number) => {
+    let now = start;
+    return {
+        clock: () => now,
+        set: (ms: number) => { now = ms; },
+        advance: (ms: number) => { now += ms; },
+    };
+};
+
+describe('advanceTimer', () => {
+    it('leaves paused timers and sub-second gaps untouched', () => {
+        const paused = goal();
+        expect(advanceTimer(paused, NOW)).toBe(paused);
+
+        const running = goal({ isRunning: true, lastTickAt: NOW });
+        expect(advanceTimer(running, NOW + 999)).toBe(running);
+    });
+
+    it('credits whole seconds and carries the remainder over', () => {
+        const running = stopwatch({ isRunning: true, lastTickAt: NOW });
+        const next = advanceTimer(running, NOW + 2500);
+        expect(next.elapsedSeconds).toBe(2);
+        expect(next.lastTickAt).toBe(NOW + 2000);
+    });
+});
+
+describe('tick', () => {
+    it('does not drift when ticks arrive late', () => {
+        const { clock, advance } = fakeClock(NOW);
+        const engine = createTimerEngine(clock);
+        let timers = [stopwatch({ isRunning: true, lastTickAt: NOW })];
+
+        // setInterval(1000) in a busy tab fires a little late every time
+        for (let i = 0; i < 100; i++) {
+            advance(1013);
+            timers = engine.tick(timers);
+        }
+
+        expect(timers[0].elapsedSeconds).toBe(101);
+        expect(timers[0].lastTickAt).toBe(NOW + 101 * 1000);
+    });
+
+    it('returns the same array when nothing is running', () => {
+        const engine = createTimerEngine(() => NOW);
+        const timers = [goal(), stopwatch()];
+        expect(engine.tick(timers)).toBe(timers);
+    });
+
+    it('catches up a timer that ran while the app was closed', () => {
+        const engine = createTimerEngine(() => NOW + 10 * 60 * 1000 + 400);
+        const [timer] = engine.tick([goal({ isRunning: true, lastTickAt: NOW })]);
+        expect(timer.remainingSeconds).toBe(3000);
+        expect(timer.isRunning).toBe(true);
+        expect(timer.lastTickAt).toBe(NOW + 10 * 60 * 1000);
+    });
+
+    it('stops a goal timer at zero', () => {
+        const engine = createTimerEngine(() => NOW + 2 * HOUR);
+        const [timer] = engine.tick([goal({ isRunning: true, lastTickAt: NOW })]);
+        expect(timer).toMatchObject({ remainingSeconds: 0, isRunning: false, lastTickAt: undefined });
+    });
+});
+
+describe('start and pause', () => {
+    it('opens a session on start and closes it at the last credited second', () => {
+        const { clock, set } = fakeClock(NOW);
+        const engine = createTimerEngine(clock);
+
+        const started = engine.start(goal(), []);
+        expect(started.timer).toMatchObject({ isRunning: true, lastTickAt: NOW });
+        expect(started.started).toMatchObject({ timerId: 'goal', startedAt: NOW, source: 'live' });
+        expect(started.ended).toBeUndefined();
+
+        set(NOW + 90 * 1000 + 700);
+        const paused = engine.pause(started.timer, [started.started!]);
+        expect(paused.timer).toMatchObject({ remainingSeconds: 3510, isRunning: false, lastTickAt: undefined });
+        expect(paused.ended).toMatchObject({ id: started.started!.id, endedAt: NOW + 90 * 1000 });
+    });
+
+    it('ends the session when the goal was met, not when it was paused', () => {
+        const { clock, set } = fakeClock(NOW);
+        const engine = createTimerEngine(clock);
+        const timer = goal({ remainingSeconds: 60, isRunning: true, lastTickAt: NOW });
+        const open: TimeEntry = { id: 'e1', timerId: 'goal', startedAt: NOW - 3540 * 1000, source: 'live' };
+
+        set(NOW + 5 * 60 * 1000);
+        const paused = engine.pause(timer, [open]);
+        expect(paused.timer.remainingSeconds).toBe(0);
+        expect(paused.ended?.endedAt).toBe(NOW + 60 * 1000);
+    });
+
+    it('toggle picks start or pause from the running state', () => {
+        const engine = createTimerEngine(() => NOW);
+        expect(engine.toggle(goal(), []).timer.isRunning).toBe(true);
+        expect(engine.toggle(goal({ isRunning: true, lastTickAt: NOW }), []).timer.isRunning).toBe(false);
+    });
+});
+
+describe('log', () => {
+    it('records manual time as a session ending now', () => {
+        const engine = createTimerEngine(() => NOW);
+        const { timer, entry } = engine.log(stopwatch({ elapsedSeconds: 30 }), 600);
+        expect(timer.elapsedSeconds).toBe(630);
+        expect(entry).toMatchObject({ timerId: 'watch', startedAt: NOW - 600 * 1000, endedAt: NOW, source: 'manual' });
+    });
+
+    it('completes a goal and stops it when the logged time covers the rest', () => {
+        const engine = createTimerEngine(() => NOW);
+        const { timer, entry } = engine.log(goal({ remainingSeconds: 300, isRunning: true, lastTickAt: NOW }), 600);
+        expect(timer).toMatchObject({ remainingSeconds: 0, isRunning: false, lastTickAt: undefined });
+        // The session holds what the goal took, so the week's snapshot shows it just met
+        expect(entry).toMatchObject({ startedAt: NOW - 300 * 1000, endedAt: NOW });
+    });
+});
+
+describe('logRange', () => {
+    it('credits only the part of the session in the current week', () => {
+        const engine = createTimerEngine(() => NOW);
+        const { timer, entry } = engine.logRange(stopwatch(), MONDAY - HOUR, MONDAY + HOUR, SETTINGS);
+        expect(timer.elapsedSeconds).toBe(3600);
+        expect(entry).toMatchObject({ startedAt: MONDAY - HOUR, endedAt: MONDAY + HOUR, source: 'manual' });
+    });
+
+    it('ends the session where a goal without overtime is met', () => {
+        const engine = createTimerEngine(() => NOW);
+        const { timer, entry } = engine.logRange(goal({ remainingSeconds: 1800 }), MONDAY - HOUR, MONDAY + HOUR, SETTINGS);
+        expect(timer.remainingSeconds).toBe(0);
+        expect(entry).toMatchObject({ startedAt: MONDAY - HOUR, endedAt: MONDAY + HOUR / 2 });
+
+        const over = engine.logRange(goal({ remainingSeconds: 1800, overtime: true }), MONDAY, MONDAY + HOUR, SETTINGS);
+        expect(over.timer.remainingSeconds).toBe(-1800);
+        expect(over.entry.endedAt).toBe(MONDAY + HOUR);
+    });
+
+    it('leaves the counters alone for a session in a past week', () => {
+        const engine = createTimerEngine(() => NOW);
+        const watch = stopwatch({ elapsedSeconds: 60 });
+        expect(engine.logRange(watch, MONDAY - 5 * HOUR, MONDAY - 3 * HOUR, SETTINGS).timer).toBe(watch);
+    });
+});
+
+describe('correct', () => {
+    const session: TimeEntry = { id: 'e1', timerId: 'watch', startedAt: NOW - 9 * HOUR, endedAt: NOW, source: 'live' };
+
+    it('takes back time from a session left running', () => {
+        const engine = createTimerEngine(() => NOW);
+        const { timer, entry } = engine.correct(stopwatch({ elapsedSeconds: 9 * 3600 }), [session], SETTINGS, 3600, 'Left it running overnight');
+
+        expect(timer.elapsedSeconds).toBe(3600);
+        expect(entry).toMatchObject({ source: 'correction', adjustSeconds: -8 * 3600, reason: 'Left it running overnight' });
+        expect(completedSecondsBetween([session, entry], 'watch', MONDAY, NEXT_MONDAY, NOW + 1)).toBe(3600);
+    });
+
+    it('clamps to between zero and the goal', () => {
+        const engine = createTimerEngine(() => NOW);
+        const timer = goal({ remainingSeconds: 1800 });
+
+        expect(engine.correct(timer, [], SETTINGS, -600, 'Too much').timer.remainingSeconds).toBe(3600);
+        const over = engine.correct(timer, [], SETTINGS, 5 * 3600, 'Too much');
+        expect(over.timer.remainingSeconds).toBe(0);
+        expect(over.entry.adjustSeconds).toBe(3600);
+    });
+
+    it('carries counter-only progress into the correction', () => {
+        const engine = createTimerEngine(() => NOW);
+        const { entry } = engine.correct(goal({ remainingSeconds: 1800 }), [], SETTINGS, 1200, 'Miscounted');
+        expect(entry.adjustSeconds).toBe(1200);
+    });
+});
+
+describe('edit', () => {
+    const engine = createTimerEngine(() => NOW);
+
+    it('keeps completed time when the goal changes', () => {
+        const timer = engine.edit(goal({ remainingSeconds: 2400 }), { totalSeconds: 7200 });
+        expect(timer).toMatchObject({ totalSeconds: 7200, remainingSeconds: 6000 });
+    });
+
+    it('stops a running goal lowered below what is already done', () => {
+        const timer = engine.edit(goal({ remainingSeconds: 1800, isRunning: true, lastTickAt: NOW }), { totalSeconds: 1200 });
+        expect(timer).toMatchObject({ remainingSeconds: 0, isRunning: false, lastTickAt: undefined });
+    });
+
+    it('carries progress across a change of type', () => {
+        const watch = engine.edit(goal({ remainingSeconds: 2400 }), { type: 'stopwatch', totalSeconds: 0 });
+        expect(watch).toMatchObject({ type: 'stopwatch', elapsedSeconds: 1200 });
+
+        const back = engine.edit(watch, { type: 'goal', totalSeconds: 3600 });
+        expect(back).toMatchObject({ type: 'goal', remainingSeconds: 2400, elapsedSeconds: 0 });
+    });
+
+    it('leaves counters alone for cosmetic changes', () => {
+        const timer = engine.edit(stopwatch({ elapsedSeconds: 90 }), { title: 'Baking', color: '#ff0000' });
+        expect(timer).toMatchObject({ title: 'Baking', color: '#ff0000', elapsedSeconds: 90 });
+    });
+});
+
+describe('archive', () => {
+    it('pauses a running timer and closes its session', () => {
+        const engine = createTimerEngine(() => NOW + 60 * 1000);
+        const open: TimeEntry = { id: 'e1', timerId: 'watch', startedAt: NOW, source: 'live' };
+
+        const { timer, ended } = engine.archive(stopwatch({ isRunning: true, lastTickAt: NOW }), [open]);
+
+        expect(timer).toMatchObject({ isRunning: false, elapsedSeconds: 60, archivedAt: NOW + 60 * 1000 });
+        expect(ended?.endedAt).toBe(NOW + 60 * 1000);
+    });
+});
+
+describe('closeStaleSessions', () => {
+    it('closes the session of a goal that finished on its own at the completion moment', () => {
+        const engine = createTimerEngine(() => NOW + 2 * HOUR);
+        const finished = goal({ remainingSeconds: 0 });
+        const open: TimeEntry = { id: 'e1', timerId: 'goal', startedAt: NOW, source: 'live' };
+
+        const closed = engine.closeStaleSessions([finished], [open], SETTINGS);
+        expect(closed).toEqual([{ ...open, endedAt: NOW + HOUR }]);
+    });
+
+    it('leaves running timers alone', () => {
+        const engine = createTimerEngine(() => NOW + HOUR);
+        const open: TimeEntry = { id: 'e1', timerId: 'watch', startedAt: NOW, source: 'live' };
+        expect(engine.closeStaleSessions([stopwatch({ isRunning: true, lastTickAt: NOW })], [open], SETTINGS)).toEqual([]);
+    });
+});
+
+describe('rollover', () => {
+    const lastWeek: WeekHistory = { id: 'h0', weekStart: new Date(MONDAY - 7 * 24 * HOUR).toISOString(), timersSnapshot: [] };
+
+    it('does nothing within the current week', () => {
+        const engine = createTimerEngine(() => NOW);
+        const entries: TimeEntry[] = [{ id: 'e1', timerId: 'goal', startedAt: MONDAY + HOUR, endedAt: MONDAY + 2 * HOUR, source: 'live' }];
+        const result = engine.rollover([goal()], entries, [lastWeek], SETTINGS);
+        expect(result.weeks).toEqual([]);
+        expect(result.weekStart).toBe(MONDAY);
+        expect(result.timers[0].remainingSeconds).toBe(0);
+    });
+
+    it('splits a session running across the boundary and keeps the timer running', () => {
+        const engine = createTimerEngine(() => NEXT_MONDAY + 30 * 60 * 1000);
+        const timer = goal({ totalSeconds: 4 * 3600, isRunning: true, lastTickAt: NEXT_MONDAY - 1000 });
+        const entries: TimeEntry[] = [{ id: 'e1', timerId: 'goal', startedAt: NEXT_MONDAY - HOUR, source: 'live' }];
+
+        const result = engine.rollover([timer], entries, [lastWeek], SETTINGS);
+
+        expect(result.weeks).toHaveLength(1);
+        expect(result.weeks[0].weekStart).toBe(new Date(MONDAY).toISOString());
+        expect(result.weeks[0].timersSnapshot[0].completedSeconds).toBe(3600);
+        expect(result.weekStart).toBe(NEXT_MONDAY);
+        expect(result.timers[0]).toMatchObject({ isRunning: true, remainingSeconds: 4 * 3600 - 30 * 60 });
+    });
+
+    it('archives weeks with no progress when the app was closed for a while', () => {
+        const engine = createTimerEngine(() => NEXT_MONDAY + 14 * 24 * HOUR);
+        const entries: TimeEntry[] = [{ id: 'e1', timerId: 'goal', startedAt: NOW, endedAt: NOW + HOUR, source: 'live' }];
+
+        const result = engine.rollover([goal()], entries, [lastWeek], SETTINGS);
+
+        expect(result.weeks.map(w => w.timersSnapshot[0].completedSeconds)).toEqual([0, 0, 3600]);
+        expect(result.timers[0].remainingSeconds).toBe(3600);
+    });
+
+    it('leaves timers archived before a week out of its snapshot', () => {
+        const engine = createTimerEngine(() => NEXT_MONDAY + 7 * 24 * HOUR + HOUR);
+        const entries: TimeEntry[] = [{ id: 'e1', timerId: 'goal', startedAt: NOW, endedAt: NOW + HOUR, source: 'live' }];
+        const archived = goal({ archivedAt: NOW + 2 * HOUR });
+
+        const result = engine.rollover([archived, stopwatch()], entries, [lastWeek], SETTINGS);
+
+        expect(result.weeks.map(w => w.timersSnapshot.map(t => t.title))).toEqual([['Cooking'], ['Work', 'Cooking']]);
+    });
+
+    it('archives and resets counters of timers without sessions', () => {
+        const engine = createTimerEngine(() => NEXT_MONDAY + HOUR);
+        const legacy = goal({ remainingSeconds: 1800, updatedAt: NOW });
+
+        const result = engine.rollover([legacy], [], [lastWeek], SETTINGS);
+
+        expect(result.weeks[0].timersSnapshot[0].completedSeconds).toBe(1800);
+        expect(result.resetTimerIds).toEqual(['goal']);
+        expect(result.timers[0].remainingSeconds).toBe(3600);
+    });
+});
+
+describe('overtime', () => {
+    it('keeps a goal running past zero and counts the surplus', () => {
+        const { clock, advance } = fakeClock(NOW);
+        const engine = createTimerEngine(clock);
+        let timers = [goal({ overtime: true, remainingSeconds: 10, isRunning: true, lastTickAt: NOW })];
+
+        advance(70 * 1000);
+        timers = engine.tick(timers);
+        expect(timers[0]).toMatchObject({ remainingSeconds: -60, isRunning: true });
+
+        const { timer } = engine.log(timers[0], 600);
+        expect(timer.remainingSeconds).toBe(-660);
+    });
+
+    it('derives the true completed time from sessions and archives it', () => {
+        const engine = createTimerEngine(() => NEXT_MONDAY + HOUR);
+        const timer = goal({ overtime: true });
+        const entries: TimeEntry[] = [{ id: 'e1', timerId: 'goal', startedAt: NOW, endedAt: NOW + 3 * HOUR, source: 'live' }];
+
+        const result = engine.rollover([timer], entries, [], SETTINGS);
+        expect(result.weeks[0].timersSnapshot[0].completedSeconds).toBe(3 * 3600);
+
+        const thisWeek = createTimerEngine(() => NOW + 3 * HOUR).rollover([timer], entries, [], SETTINGS);
+        expect(thisWeek.timers[0].remainingSeconds).toBe(3600 - 3 * 3600);
+    });
+
+    it('lets corrections go past the goal, and drops the surplus when turned off', () => {
+        const engine = createTimerEngine(() => NOW);
+        const { timer } = engine.correct(goal({ overtime: true }), [], SETTINGS, 5400, 'Stayed late');
+        expect(timer.remainingSeconds).toBe(-1800);
+
+        expect(engine.edit(timer, { overtime: false })).toMatchObject({ remainingSeconds: 0, isRunning: false });
+    });
+});
+
+describe('daily quotas', () => {
+    // An hour a day, Monday to Friday
+    const daily = (overrides: Partial<Timer> = {}): Timer =>
+        goal({ id: 'daily', type: 'daily', title: 'Spanish', workDays: [1, 2, 3, 4, 5], ...overrides });
+    const entries: TimeEntry[] = [
+        { id: 'mon', timerId: 'daily', startedAt: MONDAY + 10 * HOUR, endedAt: MONDAY + 11 * HOUR, source: 'live' },
+        { id: 'wed', timerId: 'daily', startedAt: NOW - 3 * HOUR, endedAt: NOW - 3 * HOUR + 1200 * 1000, source: 'manual' },
+    ];
+
+    it("counts today's time against today's quota", () => {
+        const wednesday = createTimerEngine(() => NOW).rollover([daily()], entries, [], SETTINGS);
+        expect(wednesday.timers[0]).toMatchObject({ remainingSeconds: 2400, elapsedSeconds: 1200, isRunning: false });
+
+        // No quota on Saturdays
+        const saturday = createTimerEngine(() => NOW + 3 * 24 * HOUR).rollover([daily()], entries, [], SETTINGS);
+        expect(saturday.timers[0]).toMatchObject({ remainingSeconds: 0, elapsedSeconds: 0 });
+    });
+
+    it("stops once today's quota is met", () => {
+        const running = daily({ remainingSeconds: 10, elapsedSeconds: 3590, isRunning: true, lastTickAt: NOW });
+        expect(advanceTimer(running, NOW + 70 * 1000)).toMatchObject({ remainingSeconds: 0, elapsedSeconds: 3600, isRunning: false });
+    });
+
+    it('archives how each day went', () => {
+        const result = createTimerEngine(() => NEXT_MONDAY + HOUR).rollover([daily()], entries, [], SETTINGS);
+        const item = result.weeks[0].timersSnapshot[0];
+        expect(item).toMatchObject({ type: 'daily', totalSeconds: 5 * 3600, completedSeconds: 4800 });
+        expect(item.days).toEqual([
+            { targetSeconds: 3600, completedSeconds: 3600 },
+            { targetSeconds: 3600, completedSeconds: 0 },
+            { targetSeconds: 3600, completedSeconds: 1200 },
+            { targetSeconds: 3600, completedSeconds: 0 },
+            { targetSeconds: 3600, completedSeconds: 0 },
+            { targetSeconds: 0, completedSeconds: 0 },
+            { targetSeconds: 0, completedSeconds: 0 },
+        ]);
+        expect(isGoalMet(item)).toBe(false);
+    });
+});
@@ -0,0 +1,318 @@
+import type { ManualSession, Timer, TimeEntry, TimerEdit, UserSettings, WeekHistory } from '../types';
+import { completedSecondsBetween, dailyQuota, deriveTimer, entryEndFor, findOpenEntry, overlapSeconds } from './entries';
+import { clearCounters, counterProgress, planRollover } from './rollover';
+import type { RolloverPlan } from './rollover';
+import { getDayStart, getWeekStart } from './week';
+import { advancePomodoro, pausePomodoro, phaseSeconds, skipPomodoro, startPomodoro } from './pomodoro';
+
+// Timer state transitions. Everything here is pure apart from reading the injected clock
+// (and minting entry ids); the provider adds version stamps, persistence and sync.
+
+export type Clock = () => number;
+
+export const systemClock: Clock = () => Date.now();
+
+export interface SessionChange {
+    timer: Timer;
+    started?: TimeEntry;    // Session opened by this change
+    ended?: TimeEntry;      // Open session closed by this change
+    credited?: ManualSession[]; // Pomodoros: work to log for the timer it is credited to
+}
+
+export interface LoggedTime {
+    timer: Timer;
+    entry: TimeEntry;
+}
+
+export interface PomodoroCycle {
+    timers: Timer[];            // Pomodoros that were caught up
+    switched: string[];         // Those of them that moved on to another interval
+    credited: ManualSession[];  // Work intervals that ended, for the timers they are credited to
+}
+
+export interface RolloverResult extends RolloverPlan {
+    timers: Timer[];        // Counters for the week starting at `weekStart`
+    weekStart: number;
+}
+
+// Daily quotas count today's time up alongside what is left of it
+const countToday = (timer: Timer, seconds: number): Partial<Timer> =>
+    timer.type === 'daily' ? { elapsedSeconds: (timer.elapsedSeconds || 0) + seconds } : {};
+
+// Credit a running timer with the whole seconds since its last tick. lastTickAt only
+// advances by the seconds credited, so the sub-second remainder carries over and repeated
+// ticks don't drift. Returns the same object when there is nothing to credit.
+export const advanceTimer = (timer: Timer, now: number): Timer => {
+    if (!timer.isRunning || !timer.lastTickAt) return timer;
+
+    const secondsPassed = Math.floor((now - timer.lastTickAt) / 1000);
+    if (secondsPassed < 1) return timer;
+
+    if (timer.type === 'stopwatch') {
+        return {
+            ...timer,
+            elapsedSeconds: (timer.elapsedSeconds || 0) + secondsPassed,
+            lastTickAt: timer.lastTickAt + secondsPassed * 1000,
+        };
+    }
+
+    const newRemaining = timer.remainingSeconds - secondsPassed;
+    if (newRemaining <= 0 && !timer.overtime) {
+        return { ...timer, ...countToday(timer, Math.max(0, timer.remainingSeconds)), remainingSeconds: 0, isRunning: false, lastTickAt: undefined };
+    }
+    return {
+        ...timer,
+        ...countToday(timer, secondsPassed),
+        remainingSeconds: newRemaining,
+        lastTickAt: timer.lastTickAt + secondsPassed * 1000,
+    };
+};
+
+// Of `seconds` logged for the current period, what the timer keeps: all of it, except for
+// goals (and daily quotas) without overtime, which stop at their target
+const creditableSeconds = (timer: Timer, seconds: number): number =>
+    timer.type === 'stopwatch' || timer.overtime ? seconds : Math.min(seconds, Math.max(0, timer.remainingSeconds));
+
+// Add logged seconds to a timer's counters. A goal that is met stops, unless it runs
+// into overtime.
+const creditSeconds = (timer: Timer, seconds: number): Timer => {
+    if (timer.type === 'stopwatch') {
+        return { ...timer, elapsedSeconds: (timer.elapsedSeconds || 0) + seconds };
+    }
+    if (timer.overtime) {
+        return { ...timer, ...countToday(timer, seconds), remainingSeconds: timer.remainingSeconds - seconds };
+    }
+
+    const newRemaining = Math.max(0, timer.remainingSeconds - seconds);
+    const isFinished = newRemaining <= 0;
+    return {
+        ...timer,
+        ...countToday(timer, seconds),
+        remainingSeconds: newRemaining,
+        isRunning: isFinished ? false : timer.isRunning,
+        lastTickAt: isFinished ? undefined : timer.lastTickAt,
+    };
+};
+
+// When a goal timer that was running at `timer.lastTickAt` reached zero
+const completedAt = (timer: Timer) => (timer.lastTickAt ?? 0) + timer.remainingSeconds * 1000;
+
+export const createTimerEngine = (clock: Clock = systemClock) => {
+    // Catch every running timer up to now. Keeps the array as is when nothing changed,
+    // so an idle tick doesn't re-render. Pomodoros are left to cyclePomodoros, since
+    // their intervals credit other timers.
+    const tick = (timers: Timer[]): Timer[] => {
+        const now = clock();
+        const next = timers.map(t => t.type === 'pomodoro' ? t : advanceTimer(t, now));
+        return next.some((t, i) => t !== timers[i]) ? next : timers;
+    };
+
+    // Catch running pomodoros up to now. Work intervals that ended are returned as
+    // sessions to log, in order. Every open device does this, so the sessions carry ids of
+    // their own (see creditId) and a second device logging one is a duplicate insert.
+    const cyclePomodoros = (timers: Timer[]): PomodoroCycle => {
+        const now = clock();
+        const result: PomodoroCycle = { timers: [], switched: [], credited: [] };
+        for (const timer of timers.filter(t => t.type === 'pomodoro')) {
+            const change = advancePomodoro(timer, now);
+            if (change.timer === timer) continue;
+            result.timers.push(change.timer);
+            result.credited.push(...change.sessions);
+            if (change.timer.phase !== timer.phase || change.timer.cycles !== timer.cycles) result.switched.push(timer.id);
+        }
+        return result;
+    };
+
+    const start = (timer: Timer, entries: TimeEntry[]): SessionChange => {
+        const now = clock();
+        if (timer.type === 'pomodoro') return { timer: startPomodoro(timer, now) };
+        const open = findOpenEntry(entries, timer.id);
+        return {
+            timer: { ...timer, isRunning: true, lastTickAt: now },
+            started: { id: crypto.randomUUID(), timerId: timer.id, startedAt: now, source: 'live' },
+            // A session left open by a goal that finished is closed before the new one starts
+            ended: open ? { ...open, endedAt: now } : undefined,
+        };
+    };
+
+    // Pausing credits the seconds since the last tick, then closes the session at the last
+    // credited second so the entry covers exactly what the counters received.
+    const pause = (timer: Timer, entries: TimeEntry[]): SessionChange => {
+        const now = clock();
+        if (timer.type === 'pomodoro') {
+            const change = pausePomodoro(timer, now);
+            return { timer: change.timer, credited: change.sessions };
+        }
+        const advanced = advanceTimer(timer, now);
+        const open = findOpenEntry(entries, timer.id);
+        const endedAt = advanced.lastTickAt ?? (advanced.isRunning ? now : Math.min(now, completedAt(timer)));
+        return {
+            timer: { ...advanced, isRunning: false, lastTickAt: undefined },
+            ended: open ? { ...open, endedAt } : undefined,
+        };
+    };
+
+    const toggle = (timer: Timer, entries: TimeEntry[]): SessionChange =>
+        timer.isRunning ? pause(timer, entries) : start(timer, entries);
+
+    // Pomodoros: end the current interval now
+    const skip = (timer: Timer): SessionChange => {
+        const change = skipPomodoro(timer, clock());
+        return { timer: change.timer, credited: change.sessions };
+    };
+
+    // Manually logged time is recorded as a session ending now. A goal without overtime
+    // takes no more than it has left, as the counters do.
+    const log = (timer: Timer, seconds: number): LoggedTime => {
+        const now = clock();
+        const credited = creditableSeconds(timer, seconds);
+        const entry: TimeEntry = {
+            id: crypto.randomUUID(),
+            timerId: timer.id,
+            startedAt: now - credited * 1000,
+            endedAt: now,
+            source: 'manual',
+        };
+        return { timer: creditSeconds(timer, credited), entry };
+    };
+
+    // A manual session at a given time. Only the part in the current week (today for daily
+    // quotas) reaches the counters; see planBackdatedEntry for the rest. That part ends
+    // early if it is more than a goal without overtime has left.
+    const logRange = (timer: Timer, startedAt: number, endedAt: number, settings: UserSettings, id: string = crypto.randomUUID()): LoggedTime => {
+        const now = clock();
+        const from = (timer.type === 'daily' ? getDayStart : getWeekStart)(new Date(now), settings).getTime();
+        const seconds = overlapSeconds({ id, timerId: timer.id, startedAt, endedAt, source: 'manual' }, from, now, now);
+        const credited = creditableSeconds(timer, seconds);
+        const end = credited < seconds ? Math.min(endedAt, now) - (seconds - credited) * 1000 : endedAt;
+        const entry: TimeEntry = { id, timerId: timer.id, startedAt, endedAt: end, source: 'manual' };
+        return { timer: credited > 0 ? creditSeconds(timer, credited) : timer, entry };
+    };
+
+    // Set this week's completed time (today's for daily quotas) to an exact value, clamped to
+    // 0..goal, or just at 0 for goals with overtime. Recorded as a correction entry holding
+    // the signed difference, so the change and its reason stay visible. Subtracting time is
+    // a correction to the current total minus that time.
+    const correct = (
+        timer: Timer,
+        entries: TimeEntry[],
+        settings: UserSettings,
+        completedSeconds: number,
+        reason: string
+    ): LoggedTime => {
+        const now = clock();
+        const daily = timer.type === 'daily';
+        const from = (daily ? getDayStart : getWeekStart)(new Date(now), settings).getTime();
+        const goal = daily ? dailyQuota(timer, from, settings) : timer.totalSeconds;
+        const target = Math.max(0, timer.type === 'stopwatch' || timer.overtime ? completedSeconds : Math.min(goal, completedSeconds));
+
+        // A timer without entries only has its counters. Its first entry switches it over to
+        // being derived from entries, so the correction has to carry the whole total.
+        const tracked = entries.some(e => e.timerId === timer.id)
+            ? completedSecondsBetween(entries, timer.id, from, now, now)
+            : 0;
+        const entry: TimeEntry = {
+            id: crypto.randomUUID(),
+            timerId: timer.id,
+            startedAt: now,
+            endedAt: now,
+            source: 'correction',
+            adjustSeconds: target - tracked,
+            reason,
+        };
+
+        const current = advanceTimer(timer, now);
+        if (current.type === 'stopwatch') {
+            return { timer: { ...current, elapsedSeconds: target }, entry };
+        }
+
+        const remainingSeconds = goal - target;
+        const isFinished = remainingSeconds <= 0 && !current.overtime;
+        return {
+            timer: {
+                ...current,
+                ...(daily ? { elapsedSeconds: target } : {}),
+                remainingSeconds,
+                isRunning: isFinished ? false : current.isRunning,
+                lastTickAt: isFinished ? undefined : current.lastTickAt,
+            },
+            entry,
+        };
+    };
+
+    // Completed time survives an edit: changing the goal (or the type) moves what is left,
+    // not what was done. A goal lowered below that is met and stops, unless it has overtime;
+    // turning overtime off drops the surplus. A daily quota's counters only cover today, so
+    // switching to or from one needs its entries re-derived as well (see deriveTimer).
+    // A pomodoro keeps the time spent in its current interval.
+    const edit = (timer: Timer, updates: TimerEdit): Timer => {
+        const done = counterProgress(timer);
+        const next = { ...timer, ...updates };
+
+        if (next.type === 'pomodoro' && next.pomodoro) {
+            const phase = next.phase ?? 'work';
+            const spent = timer.pomodoro ? phaseSeconds(timer.pomodoro, phase) - timer.remainingSeconds : 0;
+            return { ...next, totalSeconds: 0, elapsedSeconds: 0, phase, remainingSeconds: Math.max(1, phaseSeconds(next.pomodoro, phase) - spent) };
+        }
+
+        if (next.type === 'stopwatch') {
+            return { ...next, totalSeconds: 0, remainingSeconds: 0, elapsedSeconds: done };
+        }
+
+        const remainingSeconds = next.overtime ? next.totalSeconds - done : Math.max(0, next.totalSeconds - done);
+        const isFinished = remainingSeconds <= 0 && !next.overtime;
+        return {
+            ...next,
+            remainingSeconds,
+            elapsedSeconds: next.type === 'daily' ? done : 0,
+            isRunning: isFinished ? false : next.isRunning,
+            lastTickAt: isFinished ? undefined : next.lastTickAt,
+        };
+    };
+
+    const reset = (timer: Timer): Timer => clearCounters(timer);
+
+    // Soft delete. A running timer is paused first so its session ends now.
+    const archive = (timer: Timer, entries: TimeEntry[]): SessionChange => {
+        const change = timer.isRunning ? pause(timer, entries) : { timer };
+        return { ...change, timer: { ...change.timer, archivedAt: clock() } };
+    };
+
+    // Archive every week that has ended (see planRollover) and derive the counters for the
+    // current one. Sessions are clipped at week boundaries, so a timer running across one
+    // keeps running: the part before it lands in last week's snapshot, the rest counts now.
+    const rollover = (
+        timers: Timer[],
+        entries: TimeEntry[],
+        history: WeekHistory[],
+        settings: UserSettings
+    ): RolloverResult => {
+        const now = clock();
+        const plan = planRollover(timers, entries, history, settings, now);
+        const weekStart = getWeekStart(new Date(now), settings).getTime();
+        return {
+            ...plan,
+            weekStart,
+            timers: timers.map(t => plan.resetTimerIds.includes(t.id)
+                ? clearCounters(t)
+                : deriveTimer(t, entries, settings, now)),
+        };
+    };
+
+    // Goal timers pause themselves when they reach zero (and a week reset pauses
+    // everything), which leaves their session open. Returns those sessions, closed.
+    const closeStaleSessions = (timers: Timer[], entries: TimeEntry[], settings: UserSettings): TimeEntry[] => {
+        const now = clock();
+        return entries
+            .filter(e => e.endedAt === undefined)
+            .flatMap(e => {
+                const timer = timers.find(t => t.id === e.timerId);
+                if (!timer || timer.isRunning) return [];
+                return [{ ...e, endedAt: entryEndFor(timer, e, entries, settings, now) }];
+            });
+    };
+
+    return { now: clock, tick, cyclePomodoros, start, pause, toggle, skip, log, logRange, correct, edit, reset, archive, rollover, closeStaleSessions };
+};
+
+export type TimerEngine = ReturnType<typeof createTimerEngine>;
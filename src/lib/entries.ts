@@ -0,0 +1,125 @@
+import type { DayResult, TimeEntry, Timer, UserSettings } from '../types';
+import { addWeeks, getDayStart, getWeekday, getWeekStart, weekDays } from './week';
+
+// Whole seconds of an entry that fall inside [from, to). Open entries count up to `now`.
+// Corrections have no span; their signed adjustment counts in the range they were made in.
+export const overlapSeconds = (entry: TimeEntry, from: number, to: number, now: number): number => {
+    if (entry.adjustSeconds !== undefined) {
+        return entry.startedAt >= from && entry.startedAt < to ? entry.adjustSeconds : 0;
+    }
+    const start = Math.max(entry.startedAt, from);
+    const end = Math.min(entry.endedAt ?? now, to);
+    return end > start ? Math.floor((end - start) / 1000) : 0;
+};
+
+export const completedSecondsBetween = (
+    entries: TimeEntry[],
+    timerId: string,
+    from: number,
+    to: number,
+    now: number
+): number =>
+    // Corrections are clamped when made, but a later change can still leave them below zero
+    Math.max(0, entries
+        .filter(e => e.timerId === timerId)
+        .reduce((sum, e) => sum + overlapSeconds(e, from, to, now), 0));
+
+export const findOpenEntry = (entries: TimeEntry[], timerId: string) =>
+    entries.find(e => e.timerId === timerId && e.endedAt === undefined);
+
+// A daily quota's target for the day starting at `dayStart`: the quota on its work days
+// (every day if unset), nothing on the others.
+export const dailyQuota = (timer: Timer, dayStart: number, settings: UserSettings): number =>
+    !timer.workDays || timer.workDays.length === 0 || timer.workDays.includes(getWeekday(new Date(dayStart), settings))
+        ? timer.totalSeconds
+        : 0;
+
+// Each day of the week starting at `weekStart`, first day first, with its quota and the
+// time tracked on it
+export const dailyResults = (
+    timer: Timer,
+    entries: TimeEntry[],
+    weekStart: number,
+    settings: UserSettings,
+    now: number
+): DayResult[] => {
+    const days = weekDays(weekStart, settings);
+    const weekEnd = addWeeks(new Date(weekStart), 1, settings).getTime();
+    return days.map((dayStart, i) => ({
+        targetSeconds: dailyQuota(timer, dayStart, settings),
+        completedSeconds: completedSecondsBetween(entries, timer.id, dayStart, Math.min(days[i + 1] ?? weekEnd, now), now),
+    }));
+};
+
+// What a timer's counters cover: the week, or just today for daily quotas, whose target
+// changes from day to day
+const counterPeriod = (timer: Timer, settings: UserSettings, now: number) => {
+    if (timer.type !== 'daily') {
+        return { start: getWeekStart(new Date(now), settings).getTime(), target: timer.totalSeconds };
+    }
+    const start = getDayStart(new Date(now), settings).getTime();
+    return { start, target: dailyQuota(timer, start, settings) };
+};
+
+// When an open entry should be closed for a timer that is no longer running.
+// Goal timers stop on their own once the goal is met (unless they run into overtime), so
+// the session ends at that moment rather than whenever we happen to notice.
+export const entryEndFor = (timer: Timer, entry: TimeEntry, entries: TimeEntry[], settings: UserSettings, now: number): number => {
+    if (timer.type === 'stopwatch' || timer.overtime) return now;
+
+    const period = counterPeriod(timer, settings, now);
+    const closed = entries.filter(e => e.id !== entry.id && e.endedAt !== undefined);
+    const alreadyDone = completedSecondsBetween(closed, timer.id, period.start, now, now);
+    const needed = Math.max(0, period.target - alreadyDone);
+    return Math.min(now, Math.max(entry.startedAt, period.start) + needed * 1000);
+};
+
+// Rebuild a timer's counters from its entries for the current week (today for daily quotas).
+// Timers with no entries at all predate entry tracking, so their stored counters are kept;
+// a daily quota without entries has simply done nothing today.
+export const deriveTimer = (timer: Timer, entries: TimeEntry[], settings: UserSettings, now: number): Timer => {
+    const own = entries.filter(e => e.timerId === timer.id);
+    if (own.length === 0 && timer.type !== 'daily') return timer;
+
+    const period = counterPeriod(timer, settings, now);
+    const open = own.find(e => e.endedAt === undefined);
+    const closedSeconds = Math.max(0, own
+        .filter(e => e !== open)
+        .reduce((sum, e) => sum + overlapSeconds(e, period.start, now, now), 0));
+
+    const openStart = open ? Math.max(open.startedAt, period.start) : 0;
+    const openSeconds = open ? overlapSeconds(open, period.start, now, now) : 0;
+
+    if (timer.type === 'stopwatch') {
+        return {
+            ...timer,
+            elapsedSeconds: closedSeconds + openSeconds,
+            isRunning: !!open,
+            lastTickAt: open ? openStart + openSeconds * 1000 : undefined,
+        };
+    }
+
+    // The counter countToday keeps in engine.ts, taken from the day's sessions
+    const today = (completed: number) => timer.type === 'daily' ? { elapsedSeconds: completed } : {};
+
+    if (timer.overtime) {
+        return {
+            ...timer,
+            ...today(closedSeconds + openSeconds),
+            remainingSeconds: period.target - closedSeconds - openSeconds,
+            isRunning: !!open,
+            lastTickAt: open ? openStart + openSeconds * 1000 : undefined,
+        };
+    }
+
+    const needed = Math.max(0, period.target - closedSeconds);
+    const isFinished = !open || openSeconds >= needed;
+    const completed = closedSeconds + Math.min(openSeconds, needed);
+    return {
+        ...timer,
+        ...today(completed),
+        remainingSeconds: Math.max(0, period.target - completed),
+        isRunning: !!open && !isFinished,
+        lastTickAt: open && !isFinished ? openStart + openSeconds * 1000 : undefined,
+    };
+};
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { focusRivals, isFocusMode } from './focus';
+import { goal } from './testFixtures';
+import type { Timer } from '../types';
+
+const timer = (id: string, overrides: Partial<Timer> = {}): Timer => goal({ id, title: id, isRunning: true, ...overrides });
+
+describe('focusRivals', () => {
+    const starting = timer('work', { isRunning: false });
+    const timers = [
+        starting,
+        timer('reading'),
+        timer('spanish', { type: 'daily' }),
+        timer('cooking', { type: 'stopwatch', totalSeconds: 0 }),
+        timer('idle', { isRunning: false }),
+        timer('gone', { archivedAt: 1 }),
+    ];
+    const ids = (list: Timer[]) => list.map(t => t.id);
+
+    it('pauses nothing when off', () => {
+        expect(focusRivals(starting, timers, 'off')).toEqual([]);
+        expect(focusRivals(starting, timers)).toEqual([]);
+    });
+
+    it('pauses every other running timer', () => {
+        expect(ids(focusRivals(starting, timers, 'all'))).toEqual(['reading', 'spanish', 'cooking']);
+    });
+
+    it('pauses running timers in the same section only', () => {
+        expect(ids(focusRivals(starting, timers, 'section'))).toEqual(['reading', 'spanish']);
+        expect(ids(focusRivals(timers[3], timers, 'section'))).toEqual([]);
+    });
+
+    it('leaves pomodoros out either way', () => {
+        const pomodoro = timer('tomato', { type: 'pomodoro', totalSeconds: 0 });
+        expect(ids(focusRivals(starting, [...timers, pomodoro], 'all'))).toEqual(['reading', 'spanish', 'cooking']);
+        expect(focusRivals({ ...pomodoro, isRunning: false }, timers, 'all')).toEqual([]);
+    });
+});
+
+describe('isFocusMode', () => {
+    it('accepts the known modes only', () => {
+        expect(['off', 'all', 'section', 'some', undefined].map(isFocusMode)).toEqual([true, true, true, false, false]);
+    });
+});
@@ -0,0 +1,19 @@
+import type { FocusMode, Timer } from '../types';
+
+// Focus mode: starting a timer pauses the others that are running, so time isn't counted
+// twice when the previous activity wasn't stopped.
+
+export const FOCUS_MODES: FocusMode[] = ['off', 'all', 'section'];
+
+export const isFocusMode = (value: unknown): value is FocusMode => FOCUS_MODES.includes(value as FocusMode);
+
+// The dashboard section a timer is listed in
+const section = (t: Timer) => t.type === 'stopwatch' ? 'tracking' : 'goals';
+
+// Running timers that starting `timer` pauses. Pomodoros neither pause nor get paused: they
+// pace work that is credited to another timer.
+export const focusRivals = (timer: Timer, timers: Timer[], mode: FocusMode = 'off'): Timer[] =>
+    mode === 'off' || timer.type === 'pomodoro'
+        ? []
+        : timers.filter(t => t.id !== timer.id && t.isRunning && !t.archivedAt && t.type !== 'pomodoro'
+            && (mode === 'all' || section(t) === section(timer)));
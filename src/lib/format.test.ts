@@ -0,0 +1,15 @@
+import { describe, expect, it } from 'vitest';
+import { formatDuration } from './format';
+
+describe('formatDuration', () => {
+    it('shows hours and minutes, leaving out what is zero', () => {
+        expect(formatDuration(45 * 60 + 59)).toBe('45m');
+        expect(formatDuration(2 * 3600)).toBe('2h');
+        expect(formatDuration(2 * 3600 + 30 * 60)).toBe('2h 30m');
+        expect(formatDuration(0)).toBe('0m');
+    });
+
+    it('keeps the sign of negative durations', () => {
+        expect(formatDuration(-(3600 + 15 * 60))).toBe('-1h 15m');
+    });
+});
@@ -0,0 +1,10 @@
+// A duration as the app shows it: '45m', '2h' or '2h 30m'. Seconds are left out; negative
+// durations, e.g. corrections, keep their sign.
+export const formatDuration = (seconds: number): string => {
+    const sign = seconds < 0 ? '-' : '';
+    const abs = Math.abs(seconds);
+    const h = Math.floor(abs / 3600);
+    const m = Math.floor((abs % 3600) / 60);
+    if (h === 0) return `${sign}${m}m`;
+    return m > 0 ? `${sign}${h}h ${m}m` : `${sign}${h}h`;
+};
@@ -0,0 +1,71 @@
+import type { Timer, TimeEntry, WeekHistory } from '../types';
+import { repointPomodoro } from './pomodoro';
+import { DAY_MS } from './week';
+
+export interface TimerData {
+    timers: Timer[];
+    history: WeekHistory[];
+    entries: TimeEntry[];
+}
+
+export interface GuestMergePlan {
+    timers: Timer[];            // Guest timers with no counterpart on the account
+    entries: TimeEntry[];       // Guest sessions, re-pointed at the account's timers where matched
+    newWeeks: WeekHistory[];
+    updatedWeeks: WeekHistory[]; // Account weeks that gained items from the guest snapshot
+    touchedTimerIds: string[];  // Account timers whose counters change
+}
+
+// Same activity if it has the same id (uploaded before) or the same type and title.
+const timerKey = (t: Timer) => `${t.type || 'goal'}:${t.title.trim().toLowerCase()}`;
+
+export const hasTimerData = (data: TimerData) =>
+    data.timers.length > 0 || data.history.length > 0 || data.entries.length > 0;
+
+// Work out what to upload from guest data so that nothing already on the account is duplicated.
+export const planGuestMerge = (guest: TimerData, account: TimerData): GuestMergePlan => {
+    const idMap = new Map<string, string>();
+    const timers: Timer[] = [];
+    for (const t of guest.timers) {
+        const match = account.timers.find(a => a.id === t.id) ?? account.timers.find(a => timerKey(a) === timerKey(t));
+        idMap.set(t.id, match ? match.id : t.id);
+        if (!match) timers.push(t);
+    }
+
+    const knownEntryIds = new Set(account.entries.map(e => e.id));
+    const knownStarts = new Set(account.entries.map(e => `${e.timerId}:${e.startedAt}`));
+    const entries = guest.entries
+        .filter(e => idMap.has(e.timerId) && !knownEntryIds.has(e.id))
+        .map(e => ({ ...e, timerId: idMap.get(e.timerId)! }))
+        .filter(e => !knownStarts.has(`${e.timerId}:${e.startedAt}`));
+
+    const newTimerIds = new Set(timers.map(t => t.id));
+    const touchedTimerIds = [...new Set(entries.map(e => e.timerId))].filter(id => !newTimerIds.has(id));
+
+    // Snapshot items follow their timer onto the account
+    const repoint = (week: WeekHistory): WeekHistory => ({
+        ...week,
+        timersSnapshot: week.timersSnapshot.map(item =>
+            item.timerId !== undefined && idMap.has(item.timerId) ? { ...item, timerId: idMap.get(item.timerId) } : item),
+    });
+
+    const newWeeks: WeekHistory[] = [];
+    const updatedWeeks: WeekHistory[] = [];
+    const knownWeekIds = new Set(account.history.map(h => h.id));
+    for (const week of guest.history.map(repoint)) {
+        const weekTime = new Date(week.weekStart).getTime();
+        const existing = account.history.find(h => Math.abs(new Date(h.weekStart).getTime() - weekTime) < DAY_MS);
+        if (!existing) {
+            newWeeks.push(knownWeekIds.has(week.id) ? { ...week, id: crypto.randomUUID() } : week);
+            continue;
+        }
+
+        const titles = new Set(existing.timersSnapshot.map(item => item.title.trim().toLowerCase()));
+        const added = week.timersSnapshot.filter(item => !titles.has(item.title.trim().toLowerCase()));
+        if (added.length > 0) {
+            updatedWeeks.push({ ...existing, timersSnapshot: [...existing.timersSnapshot, ...added] });
+        }
+    }
+
+    return { timers: timers.map(t => repointPomodoro(t, idMap)), entries, newWeeks, updatedWeeks, touchedTimerIds };
+};
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { colorCategory, sessionsIcs } from './ical';
+import { BERLIN_NOW as NOW, BERLIN_SETTINGS as SETTINGS, HOUR, goal } from './testFixtures';
+import type { TimeEntry } from '../types';
+
+const timer = goal({ title: 'Work; deep, focused', totalSeconds: 10 * 3600, remainingSeconds: 10 * 3600 });
+
+// Unfolded property lines of each VEVENT
+const events = (ics: string) =>
+    ics.replace(/\r\n /g, '').split('BEGIN:VEVENT').slice(1).map(block => block.split('\r\n'));
+
+describe('colorCategory', () => {
+    it('names colors by hue and greys as Gray', () => {
+        expect(['#007aff', '#34c759', '#ff9500', '#af52de', '#ff0000', '#8e8e93', 'nope'].map(colorCategory))
+            .toEqual(['Blue', 'Green', 'Orange', 'Purple', 'Red', 'Gray', 'Gray']);
+    });
+});
+
+describe('sessionsIcs', () => {
+    const entries: TimeEntry[] = [
+        // 23:00 to 01:30 Berlin time, across midnight
+        { id: 'night', timerId: 'goal', startedAt: Date.UTC(2025, 0, 6, 22), endedAt: Date.UTC(2025, 0, 7, 0, 30), source: 'manual' },
+        { id: 'fix', timerId: 'goal', startedAt: NOW - HOUR, endedAt: NOW - HOUR, source: 'correction', adjustSeconds: 600 },
+        { id: 'open', timerId: 'goal', startedAt: NOW - HOUR, source: 'live' },
+    ];
+
+    it('writes each finished session as one UTC event', () => {
+        const ics = sessionsIcs(entries, [timer], SETTINGS, {}, NOW);
+        expect(ics.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+        expect(ics).toContain('X-WR-TIMEZONE:Europe/Berlin');
+
+        const [event, ...rest] = events(ics);
+        expect(rest).toEqual([]);
+        expect(event).toEqual(expect.arrayContaining([
+            'UID:night@weektime',
+            'DTSTART:20250106T220000Z',
+            'DTEND:20250107T003000Z',
+            'SUMMARY:Work\\; deep\\, focused',
+            'CATEGORIES:Blue',
+            'DESCRIPTION:2h 30m of a 10h weekly goal\\nLogged by hand',
+        ]));
+    });
+
+    it('clips sessions to the range', () => {
+        const ics = sessionsIcs(entries, [timer], SETTINGS, { from: Date.UTC(2025, 0, 6, 23) }, NOW);
+        expect(events(ics)[0]).toEqual(expect.arrayContaining([
+            'DTSTART:20250106T230000Z',
+            'DESCRIPTION:1h 30m of a 10h weekly goal\\nLogged by hand\\nPart of a longer session',
+        ]));
+    });
+
+    it('folds long lines at 75 octets', () => {
+        const long = { ...timer, title: 'Ü'.repeat(60) };
+        const lines = sessionsIcs(entries, [long], SETTINGS, {}, NOW).split('\r\n');
+        expect(lines.every(line => new TextEncoder().encode(line).length <= 75)).toBe(true);
+        expect(events(sessionsIcs(entries, [long], SETTINGS, {}, NOW))[0]).toContain(`SUMMARY:${'Ü'.repeat(60)}`);
+    });
+});
@@ -0,0 +1,119 @@
+import type { Timer, TimeEntry, UserSettings } from '../types';
+import { formatDuration } from './format';
+
+// iCalendar (RFC 5545) export of tracked sessions. Times are written in UTC, which every
+// calendar converts to its own timezone, so sessions across midnight or a DST change stay
+// one event with the right length. The configured timezone is only a display hint.
+
+export interface IcsRange {
+    from?: number;      // Sessions are clipped to this range, e.g. one week
+    to?: number;
+}
+
+// Named colors calendars commonly offer as categories, by hue
+const HUE_NAMES: [number, string][] = [
+    [15, 'Red'], [45, 'Orange'], [70, 'Yellow'], [160, 'Green'], [195, 'Teal'],
+    [250, 'Blue'], [290, 'Purple'], [340, 'Pink'], [360, 'Red'],
+];
+
+// Closest named color to a '#rrggbb' timer color; greys have no hue
+export const colorCategory = (hex: string): string => {
+    const match = hex.match(/^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i);
+    if (!match) return 'Gray';
+    const [r, g, b] = match.slice(1).map(c => parseInt(c, 16) / 255);
+    const max = Math.max(r, g, b);
+    const min = Math.min(r, g, b);
+    if (max - min < 0.1) return 'Gray';
+
+    const d = max - min;
+    const hue = max === r ? 60 * (((g - b) / d + 6) % 6)
+        : max === g ? 60 * ((b - r) / d + 2)
+        : 60 * ((r - g) / d + 4);
+    return HUE_NAMES.find(([limit]) => hue < limit)?.[1] ?? 'Red';
+};
+
+const escapeText = (value: string) =>
+    value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// '20250106T080000Z'
+const utcStamp = (instant: number) =>
+    new Date(instant).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// Lines longer than 75 octets continue on the next line after a space
+const foldLine = (line: string): string => {
+    const bytes = new TextEncoder();
+    if (bytes.encode(line).length <= 75) return line;
+
+    const parts: string[] = [];
+    let current = '';
+    for (const char of line) {
+        const limit = parts.length === 0 ? 75 : 74;
+        if (bytes.encode(current + char).length > limit) {
+            parts.push(current);
+            current = '';
+        }
+        current += char;
+    }
+    parts.push(current);
+    return parts.join('\r\n ');
+};
+
+const activityLabel = (timer: Timer) => {
+    if (timer.type === 'stopwatch') return 'time tracking';
+    return `a ${formatDuration(timer.totalSeconds)} ${timer.type === 'daily' ? 'daily quota' : 'weekly goal'}`;
+};
+
+// One VEVENT per finished session. Corrections change totals without taking time, so
+// they have no place on a calendar; sessions still running are left out until they end.
+export const sessionsIcs = (
+    entries: TimeEntry[],
+    timers: Timer[],
+    settings: UserSettings,
+    range: IcsRange = {},
+    now: number = Date.now()
+): string => {
+    const from = range.from ?? -Infinity;
+    const to = range.to ?? Infinity;
+
+    const events = [...entries]
+        .filter(e => e.source !== 'correction' && e.endedAt !== undefined && e.endedAt > from && e.startedAt < to)
+        .sort((a, b) => a.startedAt - b.startedAt)
+        .flatMap(e => {
+            const timer = timers.find(t => t.id === e.timerId);
+            if (!timer) return [];
+            const start = Math.max(e.startedAt, from);
+            const end = Math.min(e.endedAt!, to);
+
+            const notes = [
+                `${formatDuration(Math.round((end - start) / 1000))} of ${activityLabel(timer)}`,
+                e.source === 'manual' ? 'Logged by hand' : 'Tracked live',
+                ...(start !== e.startedAt || end !== e.endedAt ? ['Part of a longer session'] : []),
+            ];
+
+            return [
+                'BEGIN:VEVENT',
+                `UID:${e.id}@weektime`,
+                `DTSTAMP:${utcStamp(now)}`,
+                `DTSTART:${utcStamp(start)}`,
+                `DTEND:${utcStamp(end)}`,
+                `SUMMARY:${escapeText(timer.title)}`,
+                `CATEGORIES:${colorCategory(timer.color)}`,
+                `COLOR:${colorCategory(timer.color).toLowerCase()}`,
+                `DESCRIPTION:${escapeText(notes.join('\n'))}`,
+                'TRANSP:TRANSPARENT',
+                'END:VEVENT',
+            ];
+        });
+
+    return [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//WeekTime//Sessions//EN',
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        'X-WR-CALNAME:WeekTime',
+        `X-WR-TIMEZONE:${settings.timezone}`,
+        ...events,
+        'END:VCALENDAR',
+    ].map(foldLine).join('\r\n') + '\r\n';
+};
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { cutIdleTime, idleSessions } from './idle';
+import { MIN, NOW } from './testFixtures';
+import type { TimeEntry } from '../types';
+
+const period = { from: NOW - 60 * MIN, to: NOW };
+
+const entries: TimeEntry[] = [
+    { id: 'open', timerId: 'work', startedAt: NOW - 90 * MIN, source: 'live' },
+    // A goal that was met while nobody was there
+    { id: 'met', timerId: 'goal', startedAt: NOW - 70 * MIN, endedAt: NOW - 30 * MIN, source: 'live' },
+    // Started on another device in the meantime
+    { id: 'phone', timerId: 'reading', startedAt: NOW - 20 * MIN, source: 'live' },
+    { id: 'before', timerId: 'work', startedAt: NOW - 200 * MIN, endedAt: NOW - 100 * MIN, source: 'live' },
+    { id: 'typed', timerId: 'work', startedAt: NOW - 90 * MIN, endedAt: NOW - 10 * MIN, source: 'manual' },
+];
+
+describe('idleSessions', () => {
+    it('finds live sessions that were counting when the period began', () => {
+        expect(idleSessions(entries, period).map(e => e.id)).toEqual(['open', 'met']);
+    });
+});
+
+describe('cutIdleTime', () => {
+    it('ends them where the period begins and continues open ones after it', () => {
+        const cut = cutIdleTime(entries, period);
+        expect(cut.ended).toEqual([
+            { id: 'open', timerId: 'work', startedAt: NOW - 90 * MIN, endedAt: NOW - 60 * MIN, source: 'live' },
+            { id: 'met', timerId: 'goal', startedAt: NOW - 70 * MIN, endedAt: NOW - 60 * MIN, source: 'live' },
+        ]);
+        expect(cut.started).toEqual([
+            { id: expect.any(String), timerId: 'work', startedAt: NOW, endedAt: undefined, source: 'live' },
+        ]);
+    });
+
+    it('takes out no more than the sessions counted', () => {
+        // Only the goal, met half an hour into the period
+        const met = entries.filter(e => e.id === 'met');
+        expect(cutIdleTime(met, period).removed).toEqual({ from: NOW - 60 * MIN, to: NOW - 30 * MIN });
+        // Together with a session that counted all of it
+        expect(cutIdleTime(entries, period).removed).toEqual(period);
+    });
+});
@@ -0,0 +1,42 @@
+import type { TimeEntry } from '../types';
+
+// Time away from the device while timers kept running: no input, a hidden tab or a device
+// asleep. The catch-up on return credits all of it, so the user is asked whether to keep
+// it, discard it or move it to another timer.
+
+export const DEFAULT_IDLE_MINUTES = 10;
+
+// A clock jump between two checks longer than this means the device was asleep
+export const SLEEP_GAP_MS = 30 * 1000;
+
+export interface IdlePeriod {
+    from: number;   // Last sign of the user
+    to: number;     // When they were back
+}
+
+// Live sessions that were already counting when the period began. Sessions started during
+// it came from another device the user was busy on, so they stay as they are.
+export const idleSessions = (entries: TimeEntry[], period: IdlePeriod): TimeEntry[] =>
+    entries.filter(e => e.source === 'live' && e.startedAt <= period.from && (e.endedAt === undefined || e.endedAt > period.from));
+
+export interface IdleCut {
+    ended: TimeEntry[];     // The sessions, now ending where the period begins
+    started: TimeEntry[];   // Their continuation after it, open if they still are
+    removed?: IdlePeriod;   // The time taken out of them, if any
+}
+
+// Cut the period out of the sessions that counted it. A session that ended during the
+// period, e.g. a goal met, only gives up the time up to its end.
+export const cutIdleTime = (entries: TimeEntry[], period: IdlePeriod): IdleCut => {
+    const counted = idleSessions(entries, period);
+    const removed = counted.length > 0
+        ? { from: period.from, to: Math.max(...counted.map(e => Math.min(e.endedAt ?? period.to, period.to))) }
+        : undefined;
+    return {
+        ended: counted.map(e => ({ ...e, endedAt: period.from })),
+        started: counted
+            .filter(e => e.endedAt === undefined || e.endedAt > period.to)
+            .map(e => ({ id: crypto.randomUUID(), timerId: e.timerId, startedAt: period.to, endedAt: e.endedAt, source: 'live' })),
+        removed,
+    };
+};
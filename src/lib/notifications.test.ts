@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_NOTIFICATIONS, isNotificationPrefs, progressNotices, runningLongNotices } from './notifications';
+import { HOUR, NOW, goal } from './testFixtures';
+import type { NotificationPrefs, Timer, TimeEntry } from '../types';
+
+// Running, with 1900 of its 3600 seconds left
+const running = (overrides: Partial<Timer> = {}): Timer => goal({ remainingSeconds: 1900, isRunning: true, ...overrides });
+
+const prefs: NotificationPrefs = { ...DEFAULT_NOTIFICATIONS, milestones: [25, 50, 75] };
+
+describe('progressNotices', () => {
+    it('announces the highest milestone a running timer passed', () => {
+        const [notice, ...rest] = progressNotices([running()], [running({ remainingSeconds: 800 })], prefs);
+        expect(rest).toEqual([]);
+        expect(notice).toMatchObject({ kind: 'milestone', key: 'milestone:goal:75', title: 'Work: 75% done', body: '46m of 1h this week.' });
+    });
+
+    it('announces a goal reached instead of milestones', () => {
+        const done = running({ remainingSeconds: 0, isRunning: false, lastTickAt: undefined });
+        expect(progressNotices([running()], [done], prefs)).toEqual([expect.objectContaining({
+            kind: 'goalReached',
+            title: 'Work: goal reached',
+            body: '1h this week. The timer has stopped.',
+        })]);
+        expect(progressNotices([running()], [done], { ...prefs, goalReached: false })).toEqual([]);
+    });
+
+    it('counts daily quotas against today', () => {
+        const daily = running({ type: 'daily', remainingSeconds: 600, elapsedSeconds: 3000 });
+        const met = progressNotices([daily], [{ ...daily, remainingSeconds: 0, elapsedSeconds: 3600 }], prefs);
+        expect(met[0]).toMatchObject({ title: 'Work: quota reached', body: '1h today. The timer has stopped.' });
+    });
+
+    it('ignores paused timers and changed goals', () => {
+        expect(progressNotices([running({ isRunning: false })], [running({ remainingSeconds: 0 })], prefs)).toEqual([]);
+        expect(progressNotices([running()], [running({ totalSeconds: 1000, remainingSeconds: 0 })], prefs)).toEqual([]);
+        expect(progressNotices([], [running({ remainingSeconds: 0 })], prefs)).toEqual([]);
+    });
+});
+
+describe('runningLongNotices', () => {
+    const timers = [running(), running({ id: 'paused', isRunning: false })];
+    const entries: TimeEntry[] = [
+        { id: 'long', timerId: 'goal', startedAt: NOW - 3 * HOUR, source: 'live' },
+        { id: 'stale', timerId: 'paused', startedAt: NOW - 5 * HOUR, source: 'live' },
+        { id: 'done', timerId: 'goal', startedAt: NOW - 9 * HOUR, endedAt: NOW - 4 * HOUR, source: 'live' },
+    ];
+
+    it('reminds about running sessions past the threshold', () => {
+        expect(runningLongNotices(timers, entries, { ...prefs, runningOverHours: 2 }, NOW)).toEqual([{
+            key: 'runningLong:long',
+            kind: 'runningLong',
+            timerId: 'goal',
+            title: 'Work is still running',
+            body: "Started 3h ago. Pause it if you're done.",
+        }]);
+        expect(runningLongNotices(timers, entries, { ...prefs, runningOverHours: 4 }, NOW)).toEqual([]);
+        expect(runningLongNotices(timers, entries, prefs, NOW)).toEqual([]);
+    });
+});
+
+describe('isNotificationPrefs', () => {
+    it('accepts complete preferences only', () => {
+        expect(isNotificationPrefs(prefs)).toBe(true);
+        expect(isNotificationPrefs({ ...prefs, runningOverHours: 2 })).toBe(true);
+        expect(isNotificationPrefs({ goalReached: true })).toBe(false);
+        expect(isNotificationPrefs(null)).toBe(false);
+    });
+});
@@ -0,0 +1,87 @@
+import type { NotificationPrefs, Timer, TimeEntry } from '../types';
+import { counterProgress } from './rollover';
+import { formatDuration } from './format';
+
+// What the running timers have to tell: a goal (or today's quota) met, a share of it done,
+// or a session that has gone on for suspiciously long. Only live time announces progress;
+// time logged by hand or an edited goal is something the user just did themselves.
+
+export const DEFAULT_NOTIFICATIONS: NotificationPrefs = { goalReached: true, milestones: [], sound: false };
+
+// Percentages of a goal that can be announced on the way
+export const MILESTONES = [25, 50, 75, 90];
+
+export const isNotificationPrefs = (value: unknown): value is NotificationPrefs => {
+    if (typeof value !== 'object' || value === null) return false;
+    const v = value as Record<string, unknown>;
+    return typeof v.goalReached === 'boolean' && typeof v.sound === 'boolean'
+        && Array.isArray(v.milestones) && v.milestones.every(m => typeof m === 'number')
+        && (v.runningOverHours === undefined || typeof v.runningOverHours === 'number');
+};
+
+export type NoticeKind = 'goalReached' | 'milestone' | 'runningLong';
+
+export interface TimerNotice {
+    key: string;        // The same for the same event, e.g. to replace a notification about it
+    kind: NoticeKind;
+    timerId: string;
+    title: string;
+    body: string;
+}
+
+// Goals and daily quotas count towards a target; for quotas it's today's
+const hasTarget = (t: Timer) => t.type === 'goal' || t.type === 'daily';
+const targetOf = (t: Timer) => counterProgress(t) + t.remainingSeconds;
+
+// Progress a running timer made between two states of the timers. A goal reached is
+// announced on its own; of several milestones passed at once only the highest is.
+export const progressNotices = (before: Timer[], after: Timer[], prefs: NotificationPrefs): TimerNotice[] =>
+    after.flatMap((timer): TimerNotice[] => {
+        const previous = before.find(t => t.id === timer.id);
+        if (!previous || !previous.isRunning || !hasTarget(timer) || timer.type !== previous.type) return [];
+        const target = targetOf(timer);
+        if (target <= 0 || targetOf(previous) !== target) return [];
+        const period = timer.type === 'daily' ? 'today' : 'this week';
+
+        if (previous.remainingSeconds > 0 && timer.remainingSeconds <= 0) {
+            if (!prefs.goalReached) return [];
+            return [{
+                key: `goalReached:${timer.id}`,
+                kind: 'goalReached',
+                timerId: timer.id,
+                title: `${timer.title}: ${timer.type === 'daily' ? 'quota' : 'goal'} reached`,
+                body: `${formatDuration(target)} ${period}. ${timer.overtime ? 'Still running in overtime.' : 'The timer has stopped.'}`,
+            }];
+        }
+
+        const share = (t: Timer) => counterProgress(t) / target * 100;
+        const passed = prefs.milestones.filter(m => m < 100 && share(previous) < m && share(timer) >= m);
+        if (passed.length === 0) return [];
+        const percent = Math.max(...passed);
+        return [{
+            key: `milestone:${timer.id}:${percent}`,
+            kind: 'milestone',
+            timerId: timer.id,
+            title: `${timer.title}: ${percent}% done`,
+            body: `${formatDuration(counterProgress(timer))} of ${formatDuration(target)} ${period}.`,
+        }];
+    });
+
+// Sessions running for longer than the reminder threshold, one notice each
+export const runningLongNotices = (timers: Timer[], entries: TimeEntry[], prefs: NotificationPrefs, now: number): TimerNotice[] => {
+    if (!prefs.runningOverHours) return [];
+    const limit = prefs.runningOverHours * 3600 * 1000;
+    return entries
+        .filter(e => e.endedAt === undefined && now - e.startedAt >= limit)
+        .flatMap((e): TimerNotice[] => {
+            const timer = timers.find(t => t.id === e.timerId);
+            if (!timer || !timer.isRunning) return [];
+            return [{
+                key: `runningLong:${e.id}`,
+                kind: 'runningLong',
+                timerId: timer.id,
+                title: `${timer.title} is still running`,
+                body: `Started ${formatDuration(Math.floor((now - e.startedAt) / 1000))} ago. Pause it if you're done.`,
+            }];
+        });
+};
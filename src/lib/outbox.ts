@@ -0,0 +1,86 @@
+import { supabase } from './supabase';
+
+// Persisted queue of Supabase writes. Actions update local state immediately and enqueue
+// their writes here; the queue is replayed in order whenever we are (back) online.
+
+export type OutboxTable = 'timers' | 'week_history' | 'time_entries' | 'user_settings';
+
+export interface OutboxOp {
+    table: OutboxTable;
+    action: 'insert' | 'update' | 'upsert' | 'delete' | 'rpc';
+    id: string;                         // Row id; inserts and upserts carry it in `values` too.
+    ids?: string[];                     // Rpcs: every row of `table` the function writes.
+    fn?: string;                        // Rpcs: the database function, called with `values`.
+    values?: Record<string, unknown>;
+    filter?: string;                    // Extra PostgREST `or` filter for updates.
+    onConflict?: string;                // Columns an upsert matches rows on, if not the primary key.
+    guard?: boolean;                    // An update whose filter matches nothing, or an rpc
+                                        // returning false, is a conflict.
+}
+
+// One user action. If a guarded op conflicts, the rest of its batch is dropped.
+export interface OutboxBatch {
+    id: string;
+    userId: string;
+    ops: OutboxOp[];                    // Still to run; ops that landed are taken off
+    timerIds?: string[];                // Every timer the batch writes, as enqueued
+    attempts: number;
+    nextAttemptAt: number;
+}
+
+export type OpResult = 'done' | 'conflict' | 'retry' | 'failed';
+
+const STORAGE_KEY_OUTBOX = 'weektime_outbox';
+
+export const readOutbox = (): OutboxBatch[] => {
+    try {
+        return JSON.parse(localStorage.getItem(STORAGE_KEY_OUTBOX) || '[]');
+    } catch {
+        return [];
+    }
+};
+
+// Always read-modify-write in one go: the queue is shared by enqueue and the drain loop.
+export const updateOutbox = (fn: (batches: OutboxBatch[]) => OutboxBatch[]): OutboxBatch[] => {
+    const next = fn(readOutbox());
+    localStorage.setItem(STORAGE_KEY_OUTBOX, JSON.stringify(next));
+    return next;
+};
+
+// Network failures come back with status 0; server hiccups and rate limits are worth retrying.
+const isTransient = (status: number) => status === 0 || status === 408 || status === 429 || status >= 500;
+
+export const retryDelay = (attempts: number) => Math.min(60_000, 1000 * 2 ** attempts);
+
+export const runOp = async (op: OutboxOp): Promise<OpResult> => {
+    let error;
+    let status;
+    let matched = true;
+
+    if (op.action === 'insert') {
+        ({ error, status } = await supabase.from(op.table).insert(op.values ?? {}));
+        // Already applied by an earlier attempt whose response got lost
+        if (error?.code === '23505') return 'done';
+    } else if (op.action === 'upsert') {
+        ({ error, status } = await supabase.from(op.table).upsert(op.values ?? {}, { onConflict: op.onConflict }));
+    } else if (op.action === 'update') {
+        let query = supabase.from(op.table).update(op.values ?? {}).eq('id', op.id);
+        if (op.filter) query = query.or(op.filter);
+        const result = await query.select('id');
+        ({ error, status } = result);
+        matched = (result.data?.length ?? 0) > 0;
+    } else if (op.action === 'rpc') {
+        const result = await supabase.rpc(op.fn ?? '', op.values ?? {});
+        ({ error, status } = result);
+        matched = result.data !== false;
+    } else {
+        ({ error, status } = await supabase.from(op.table).delete().eq('id', op.id));
+    }
+
+    if (error) return isTransient(status) ? 'retry' : 'failed';
+    return op.guard && !matched ? 'conflict' : 'done';
+};
+
+// Ids of rows that queued inserts will still create
+export const pendingInsertIds = (table: OutboxTable): Set<string> =>
+    new Set(readOutbox().flatMap(b => b.ops).filter(op => op.table === table && op.action === 'insert').map(op => op.id));
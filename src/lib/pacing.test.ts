@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { goalPace } from './pacing';
+import { NOW, SETTINGS, goal } from './testFixtures';
+import type { Timer } from '../types';
+
+// Pacing works in seconds
+const HOURS = 3600;
+
+const paced = (totalSeconds: number, doneSeconds: number, workDays?: number[]): Timer =>
+    goal({ totalSeconds, remainingSeconds: totalSeconds - doneSeconds, workDays });
+
+describe('goalPace', () => {
+    it('compares progress to an even spread over the whole week', () => {
+        expect(goalPace(paced(14 * HOURS, 6 * HOURS), SETTINGS, NOW)).toEqual({
+            expectedSeconds: 5 * HOURS,
+            aheadSeconds: HOURS,
+            remainingDays: 5,
+            neededPerDay: 8 * HOURS / 5,
+            projectedDay: Date.UTC(2025, 0, 18),
+        });
+    });
+
+    it('only spreads the goal over its work days', () => {
+        expect(goalPace(paced(10 * HOURS, 2 * HOURS, [1, 2, 3, 4, 5]), SETTINGS, NOW)).toEqual({
+            expectedSeconds: 5 * HOURS,
+            aheadSeconds: -3 * HOURS,
+            remainingDays: 3,
+            neededPerDay: 8 * HOURS / 3,
+            projectedDay: undefined,
+        });
+    });
+
+    it('needs nothing per day once the work days are over or the goal is met', () => {
+        const saturday = Date.UTC(2025, 0, 18, 12);
+        expect(goalPace(paced(10 * HOURS, 8 * HOURS, [1, 2, 3, 4, 5]), SETTINGS, saturday))
+            .toMatchObject({ expectedSeconds: 10 * HOURS, remainingDays: 0, neededPerDay: undefined });
+        expect(goalPace(paced(10 * HOURS, 10 * HOURS), SETTINGS, NOW))
+            .toMatchObject({ neededPerDay: undefined, projectedDay: undefined });
+    });
+});
@@ -0,0 +1,49 @@
+import type { Timer, UserSettings } from '../types';
+import { counterProgress } from './rollover';
+import { addWeeks, getWeekStart, weekDays } from './week';
+
+export const ALL_DAYS = [0, 1, 2, 3, 4, 5, 6];
+
+export interface GoalPace {
+    expectedSeconds: number;    // Where the goal would be now if worked on evenly over its days
+    aheadSeconds: number;       // Positive ahead of that, negative behind
+    remainingDays: number;      // Work days left, today included
+    neededPerDay?: number;      // Seconds per remaining work day to finish; undefined once met or out of days
+    projectedDay?: number;      // Start of the work day the goal is met at the current rate; undefined if not this week or already met
+}
+
+// How a goal is doing against an even spread over the days it is worked on (`workDays`,
+// all days if unset). Days run from the rollover hour like the week; a day counts in
+// proportion to how much of it has passed. Only meaningful for goal timers.
+export const goalPace = (timer: Timer, settings: UserSettings, now: number): GoalPace => {
+    const weekStart = getWeekStart(new Date(now), settings).getTime();
+    const weekEnd = addWeeks(new Date(weekStart), 1, settings).getTime();
+    const starts = weekDays(weekStart, settings);
+    const workDays = timer.workDays && timer.workDays.length > 0 ? timer.workDays : ALL_DAYS;
+
+    const days = starts
+        .map((start, i) => ({ start, end: starts[i + 1] ?? weekEnd, weekday: (settings.weekStartDay + i) % 7 }))
+        .filter(d => workDays.includes(d.weekday));
+    const dayShare = (d: { start: number; end: number }) => Math.min(1, Math.max(0, (now - d.start) / (d.end - d.start)));
+
+    const elapsed = days.reduce((sum, d) => sum + dayShare(d), 0) / days.length;
+    const done = counterProgress(timer);
+    const expectedSeconds = Math.round(timer.totalSeconds * elapsed);
+    const left = Math.max(0, timer.totalSeconds - done);
+    const remainingDays = days.filter(d => d.end > now).length;
+
+    // At the rate so far, the goal is met after `metAt` work days' worth of the week
+    let projectedDay: number | undefined;
+    if (left > 0 && done > 0) {
+        const metAt = (elapsed * days.length) * timer.totalSeconds / done;
+        if (metAt <= days.length) projectedDay = days[Math.max(0, Math.ceil(metAt) - 1)].start;
+    }
+
+    return {
+        expectedSeconds,
+        aheadSeconds: done - expectedSeconds,
+        remainingDays,
+        neededPerDay: left > 0 && remainingDays > 0 ? Math.ceil(left / remainingDays) : undefined,
+        projectedDay,
+    };
+};
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { advancePomodoro, creditId, pausePomodoro, skipPomodoro, startPomodoro } from './pomodoro';
+import { createTimerEngine } from './engine';
+import { planRollover } from './rollover';
+import { MIN, NOW, SETTINGS, goal } from './testFixtures';
+import type { Timer } from '../types';
+
+const pomodoro = (overrides: Partial<Timer> = {}): Timer => goal({
+    id: 'tomato',
+    type: 'pomodoro',
+    title: 'Focus',
+    totalSeconds: 0,
+    remainingSeconds: 25 * 60,
+    color: '#ff3b30',
+    pomodoro: { targetId: 'goal', workSeconds: 25 * 60, breakSeconds: 5 * 60, longBreakSeconds: 15 * 60, longBreakEvery: 2 },
+    phase: 'work',
+    cycles: 0,
+    ...overrides,
+});
+
+describe('advancePomodoro', () => {
+    it('counts the interval down without crediting anything yet', () => {
+        const { timer, sessions } = advancePomodoro(startPomodoro(pomodoro(), NOW), NOW + 10 * MIN + 500);
+        expect(timer).toMatchObject({ phase: 'work', remainingSeconds: 15 * 60, lastTickAt: NOW + 10 * MIN, workFrom: NOW });
+        expect(sessions).toEqual([]);
+    });
+
+    it('credits each finished work interval and takes a long break every N cycles', () => {
+        // Closed for an hour: work 25, break 5, work 25 (long break due), 5 minutes into it
+        const { timer, sessions } = advancePomodoro(startPomodoro(pomodoro(), NOW), NOW + 60 * MIN);
+        expect(sessions).toEqual([
+            { id: creditId('tomato', NOW), timerId: 'goal', startedAt: NOW, endedAt: NOW + 25 * MIN },
+            { id: creditId('tomato', NOW + 30 * MIN), timerId: 'goal', startedAt: NOW + 30 * MIN, endedAt: NOW + 55 * MIN },
+        ]);
+        expect(timer).toMatchObject({ phase: 'longBreak', cycles: 2, remainingSeconds: 10 * 60, workFrom: undefined });
+    });
+
+    it('gives the work of an interval the same id on every device that credits it', () => {
+        const running = startPomodoro(pomodoro(), NOW);
+        const id = advancePomodoro(running, NOW + 26 * MIN).sessions[0].id;
+        expect(id).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-8[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+        expect(pausePomodoro(running, NOW + 10 * MIN).sessions[0].id).toBe(id);
+        expect(creditId('other', NOW)).not.toBe(id);
+        expect(creditId('tomato', NOW + 1000)).not.toBe(id);
+    });
+
+    it('leaves a paused pomodoro alone', () => {
+        const paused = pomodoro();
+        expect(advancePomodoro(paused, NOW + 60 * MIN).timer).toBe(paused);
+    });
+});
+
+describe('pausing and skipping', () => {
+    it('credits the work of the interval so far on pause and resumes where it was', () => {
+        const { timer, sessions } = pausePomodoro(startPomodoro(pomodoro(), NOW), NOW + 10 * MIN);
+        expect(sessions).toEqual([{ id: creditId('tomato', NOW), timerId: 'goal', startedAt: NOW, endedAt: NOW + 10 * MIN }]);
+        expect(timer).toMatchObject({ isRunning: false, phase: 'work', remainingSeconds: 15 * 60, workFrom: undefined });
+
+        const resumed = startPomodoro(timer, NOW + 20 * MIN);
+        expect(resumed).toMatchObject({ isRunning: true, workFrom: NOW + 20 * MIN });
+    });
+
+    it('moves on to the next interval, counting a skipped work interval as a cycle', () => {
+        const { timer, sessions } = skipPomodoro(startPomodoro(pomodoro(), NOW), NOW + 5 * MIN);
+        expect(sessions).toEqual([{ id: creditId('tomato', NOW), timerId: 'goal', startedAt: NOW, endedAt: NOW + 5 * MIN }]);
+        expect(timer).toMatchObject({ phase: 'break', cycles: 1, remainingSeconds: 5 * 60, isRunning: true });
+
+        const back = skipPomodoro(timer, NOW + 6 * MIN);
+        expect(back.sessions).toEqual([]);
+        expect(back.timer).toMatchObject({ phase: 'work', cycles: 1, workFrom: NOW + 6 * MIN });
+    });
+});
+
+describe('engine', () => {
+    it('leaves pomodoros to cyclePomodoros on ticks and keeps the interval time on edits', () => {
+        const engine = createTimerEngine(() => NOW + 26 * MIN);
+        const running = startPomodoro(pomodoro(), NOW);
+        expect(engine.tick([running])[0]).toBe(running);
+
+        const cycle = engine.cyclePomodoros([running]);
+        expect(cycle.switched).toEqual(['tomato']);
+        expect(cycle.credited).toEqual([{ id: creditId('tomato', NOW), timerId: 'goal', startedAt: NOW, endedAt: NOW + 25 * MIN }]);
+
+        const edited = engine.edit(pomodoro({ remainingSeconds: 20 * 60 }), { pomodoro: { ...pomodoro().pomodoro!, workSeconds: 50 * 60 } });
+        expect(edited.remainingSeconds).toBe(45 * 60);
+    });
+
+    it('keeps pomodoros out of week snapshots', () => {
+        const lastWeek = NOW - 7 * 24 * 60 * MIN;
+        const entries = [{ id: 'e1', timerId: 'goal', startedAt: lastWeek, endedAt: lastWeek + 25 * MIN, source: 'manual' as const }];
+        const plan = planRollover([goal(), pomodoro()], entries, [], SETTINGS, NOW);
+        expect(plan.weeks[0].timersSnapshot.map(item => item.timerId)).toEqual(['goal']);
+    });
+});
@@ -0,0 +1,153 @@
+import type { ManualSession, PomodoroConfig, PomodoroPhase, Timer } from '../types';
+
+// Pomodoro timers alternate work intervals with breaks and credit the work to another
+// timer (`pomodoro.targetId`) as finished sessions. They count down the current interval
+// in `remainingSeconds` and keep no sessions of their own.
+
+export const DEFAULT_POMODORO: Omit<PomodoroConfig, 'targetId'> = {
+    workSeconds: 25 * 60,
+    breakSeconds: 5 * 60,
+    longBreakSeconds: 15 * 60,
+    longBreakEvery: 4,
+};
+
+// Whether a config from the timer form has a target and lengths to work with
+export const isCompletePomodoro = (config: PomodoroConfig) =>
+    config.targetId !== '' && config.workSeconds > 0 && config.breakSeconds > 0
+    && config.longBreakSeconds > 0 && config.longBreakEvery >= 1;
+
+export const PHASE_LABELS: Record<PomodoroPhase, string> = { work: 'Work', break: 'Break', longBreak: 'Long break' };
+
+// Length of an interval, at least a second so a cycle always moves forward
+export const phaseSeconds = (config: PomodoroConfig, phase: PomodoroPhase): number =>
+    Math.max(1, phase === 'work' ? config.workSeconds : phase === 'break' ? config.breakSeconds : config.longBreakSeconds);
+
+// What follows `phase`, once `cycles` work intervals (the one ending included) are done
+export const nextPhase = (phase: PomodoroPhase, cycles: number, config: PomodoroConfig): PomodoroPhase => {
+    if (phase !== 'work') return 'work';
+    return cycles % Math.max(1, config.longBreakEvery) === 0 ? 'longBreak' : 'break';
+};
+
+export interface PomodoroChange {
+    timer: Timer;
+    sessions: ManualSession[];  // Work to credit to the target timer, oldest first
+}
+
+// Id of the work a pomodoro started counting at `workFrom`: a hash of the two (cyrb128)
+// shaped as a UUID. Every device that credits the interval, by catching up or by pausing,
+// comes up with the same one.
+export const creditId = (pomodoroId: string, workFrom: number): string => {
+    const key = `${pomodoroId}:${workFrom}`;
+    let h1 = 1779033703, h2 = 3144134277, h3 = 1013904242, h4 = 2773480762;
+    for (let i = 0; i < key.length; i++) {
+        const k = key.charCodeAt(i);
+        h1 = h2 ^ Math.imul(h1 ^ k, 597399067);
+        h2 = h3 ^ Math.imul(h2 ^ k, 2869860233);
+        h3 = h4 ^ Math.imul(h3 ^ k, 951274213);
+        h4 = h1 ^ Math.imul(h4 ^ k, 2716044179);
+    }
+    h1 = Math.imul(h3 ^ (h1 >>> 18), 597399067);
+    h2 = Math.imul(h4 ^ (h2 >>> 22), 2869860233);
+    h3 = Math.imul(h1 ^ (h3 >>> 17), 951274213);
+    h4 = Math.imul(h2 ^ (h4 >>> 19), 2716044179);
+    h1 ^= h2 ^ h3 ^ h4;
+    const hex = [h1, h2 ^ h1, h3 ^ h1, h4 ^ h1].map(h => (h >>> 0).toString(16).padStart(8, '0')).join('');
+    const variant = (8 | (parseInt(hex[16], 16) & 3)).toString(16);
+    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-8${hex.slice(13, 16)}-${variant}${hex.slice(17, 20)}-${hex.slice(20)}`;
+};
+
+// Work done since `workFrom`, if there is a second of it
+const workSession = (timer: Timer, endedAt: number): ManualSession[] =>
+    timer.pomodoro && (timer.phase ?? 'work') === 'work' && timer.workFrom !== undefined && endedAt - timer.workFrom >= 1000
+        ? [{ id: creditId(timer.id, timer.workFrom), timerId: timer.pomodoro.targetId, startedAt: timer.workFrom, endedAt }]
+        : [];
+
+// End the current interval at `at` and begin the next one there. A running work interval
+// starts counting work right away.
+const endInterval = (timer: Timer, config: PomodoroConfig, at: number): PomodoroChange => {
+    const phase = timer.phase ?? 'work';
+    const cycles = (timer.cycles ?? 0) + (phase === 'work' ? 1 : 0);
+    const next = nextPhase(phase, cycles, config);
+    return {
+        timer: {
+            ...timer,
+            phase: next,
+            cycles,
+            remainingSeconds: phaseSeconds(config, next),
+            workFrom: next === 'work' && timer.isRunning ? at : undefined,
+        },
+        sessions: workSession(timer, at),
+    };
+};
+
+// Catch a running pomodoro up to `now` the way advanceTimer does for other timers: whole
+// seconds since lastTickAt, through as many intervals as ended meanwhile (e.g. while the
+// app was closed). Returns the same timer when there is nothing to count.
+export const advancePomodoro = (timer: Timer, now: number): PomodoroChange => {
+    const config = timer.pomodoro;
+    if (!config || !timer.isRunning || !timer.lastTickAt) return { timer, sessions: [] };
+
+    let left = Math.floor((now - timer.lastTickAt) / 1000);
+    if (left < 1) return { timer, sessions: [] };
+
+    let current = timer;
+    let at = timer.lastTickAt;
+    const sessions: ManualSession[] = [];
+    while (left >= current.remainingSeconds) {
+        const ended = Math.max(0, current.remainingSeconds);
+        at += ended * 1000;
+        left -= ended;
+        const change = endInterval(current, config, at);
+        current = change.timer;
+        sessions.push(...change.sessions);
+    }
+    return {
+        timer: { ...current, remainingSeconds: current.remainingSeconds - left, lastTickAt: at + left * 1000 },
+        sessions,
+    };
+};
+
+export const startPomodoro = (timer: Timer, now: number): Timer => ({
+    ...timer,
+    phase: timer.phase ?? 'work',
+    isRunning: true,
+    lastTickAt: now,
+    workFrom: (timer.phase ?? 'work') === 'work' ? now : undefined,
+});
+
+// Pausing credits the work of the interval so far; the interval resumes where it was
+export const pausePomodoro = (timer: Timer, now: number): PomodoroChange => {
+    const advanced = advancePomodoro(timer, now);
+    const current = advanced.timer;
+    return {
+        timer: { ...current, isRunning: false, lastTickAt: undefined, workFrom: undefined },
+        sessions: [...advanced.sessions, ...workSession(current, current.lastTickAt ?? now)],
+    };
+};
+
+// Move straight on to the next interval. A skipped work interval still counts as a cycle,
+// with the work done in it credited.
+export const skipPomodoro = (timer: Timer, now: number): PomodoroChange => {
+    if (!timer.pomodoro) return { timer, sessions: [] };
+    const advanced = advancePomodoro(timer, now);
+    const at = advanced.timer.lastTickAt ?? now;
+    const change = endInterval(advanced.timer, timer.pomodoro, at);
+    return { timer: change.timer, sessions: [...advanced.sessions, ...change.sessions] };
+};
+
+// Back to the first work interval, paused
+export const restartPomodoro = (timer: Timer): Timer => ({
+    ...timer,
+    phase: 'work',
+    cycles: 0,
+    remainingSeconds: timer.pomodoro ? phaseSeconds(timer.pomodoro, 'work') : 0,
+    isRunning: false,
+    lastTickAt: undefined,
+    workFrom: undefined,
+});
+
+// A pomodoro moved along with its timers under new ids credits its target's new id
+export const repointPomodoro = (timer: Timer, ids: Map<string, string>): Timer =>
+    timer.pomodoro && ids.has(timer.pomodoro.targetId)
+        ? { ...timer, pomodoro: { ...timer.pomodoro, targetId: ids.get(timer.pomodoro.targetId)! } }
+        : timer;
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { planBackdatedEntry } from './rollover';
+import { HOUR, MONDAY, NOW, SETTINGS, goal } from './testFixtures';
+import type { Timer, TimeEntry, WeekHistory } from '../types';
+
+const LAST_MONDAY = Date.UTC(2025, 0, 6);
+
+const timer = goal();
+
+const entry = (startedAt: number, endedAt: number): TimeEntry =>
+    ({ id: 'e1', timerId: 'goal', startedAt, endedAt, source: 'manual' });
+
+describe('planBackdatedEntry', () => {
+    const lastWeek: WeekHistory = {
+        id: 'h1',
+        weekStart: new Date(LAST_MONDAY).toISOString(),
+        timersSnapshot: [{ title: 'Work', type: 'goal', totalSeconds: 3600, completedSeconds: 600, color: '#007aff' }],
+    };
+
+    it('adds the time to the archived week it falls in', () => {
+        const plan = planBackdatedEntry(timer, entry(LAST_MONDAY + 14 * HOUR, LAST_MONDAY + 16 * HOUR), [lastWeek], SETTINGS, NOW);
+        expect(plan.newWeeks).toEqual([]);
+        expect(plan.updatedWeeks).toHaveLength(1);
+        expect(plan.updatedWeeks[0].timersSnapshot[0].completedSeconds).toBe(600 + 7200);
+    });
+
+    it('adds the timer to a snapshot taken before it existed', () => {
+        const other = { ...timer, id: 'other', title: 'Reading' };
+        const plan = planBackdatedEntry(other, { ...entry(LAST_MONDAY, LAST_MONDAY + HOUR), timerId: 'other' }, [lastWeek], SETTINGS, NOW);
+        expect(plan.updatedWeeks[0].timersSnapshot.map(t => [t.title, t.completedSeconds])).toEqual([['Work', 600], ['Reading', 3600]]);
+    });
+
+    it('archives a week that has no snapshot yet', () => {
+        const plan = planBackdatedEntry(timer, entry(LAST_MONDAY - 2 * 24 * HOUR, LAST_MONDAY - 2 * 24 * HOUR + HOUR), [lastWeek], SETTINGS, NOW);
+        expect(plan.updatedWeeks).toEqual([]);
+        expect(plan.newWeeks).toHaveLength(1);
+        expect(plan.newWeeks[0].weekStart).toBe(new Date(LAST_MONDAY - 7 * 24 * HOUR).toISOString());
+    });
+
+    it('leaves the current week to the counters', () => {
+        const plan = planBackdatedEntry(timer, entry(MONDAY - HOUR, MONDAY + HOUR), [lastWeek], SETTINGS, NOW);
+        expect(plan.updatedWeeks[0].timersSnapshot[0].completedSeconds).toBe(600 + 3600);
+        expect(plan.newWeeks).toEqual([]);
+    });
+
+    it("credits a daily quota's day as well as its week", () => {
+        const daily: Timer = { ...timer, type: 'daily' };
+        const days = Array.from({ length: 7 }, () => ({ targetSeconds: 3600, completedSeconds: 0 }));
+        const week = { ...lastWeek, timersSnapshot: [{ ...lastWeek.timersSnapshot[0], type: 'daily' as const, totalSeconds: 7 * 3600, timerId: 'goal', days }] };
+
+        const tuesday = LAST_MONDAY + 24 * HOUR;
+        const plan = planBackdatedEntry(daily, entry(tuesday + 9 * HOUR, tuesday + 10 * HOUR), [week], SETTINGS, NOW);
+        const item = plan.updatedWeeks[0].timersSnapshot[0];
+        expect(item.completedSeconds).toBe(600 + 3600);
+        expect(item.days?.map(d => d.completedSeconds)).toEqual([0, 3600, 0, 0, 0, 0, 0]);
+    });
+});
@@ -0,0 +1,199 @@
+import type { DayResult, Timer, TimeEntry, UserSettings, WeekHistory } from '../types';
+import { completedSecondsBetween, dailyResults, overlapSeconds } from './entries';
+import { DAY_MS, addWeeks, getWeekStart } from './week';
+import { restartPomodoro } from './pomodoro';
+
+type SnapshotItem = WeekHistory['timersSnapshot'][number];
+
+// Daily quotas pass the week's `days`; their goal for the week is those days' targets
+export const snapshotItem = (t: Timer, completedSeconds: number, days?: DayResult[]): SnapshotItem => ({
+    timerId: t.id,
+    title: t.title,
+    type: t.type,
+    totalSeconds: days ? days.reduce((sum, d) => sum + d.targetSeconds, 0) : t.totalSeconds,
+    completedSeconds,
+    color: t.color,
+    ...(days ? { days } : {}),
+});
+
+// Whether a snapshot item records this timer. Older items carry no id and fall back to
+// what they recorded, which breaks once the timer is renamed.
+export const isSnapshotOf = (item: SnapshotItem, t: Timer) =>
+    item.timerId !== undefined ? item.timerId === t.id : item.title === t.title && item.type === t.type;
+
+// Whether a snapshot item's goal was met. A daily quota is only met if every day's was,
+// since a missed day can't be made up on another.
+export const isGoalMet = (item: SnapshotItem) => {
+    if (item.type === 'stopwatch') return false;
+    if (item.days) return item.days.every(d => d.completedSeconds >= d.targetSeconds);
+    return item.totalSeconds > 0 && item.completedSeconds >= item.totalSeconds;
+};
+
+// Progress held in a timer's own counters (as opposed to its entries). Daily quotas only
+// hold today's.
+export const counterProgress = (t: Timer) =>
+    t.type === 'stopwatch' || t.type === 'daily' ? (t.elapsedSeconds || 0) : (t.totalSeconds - t.remainingSeconds);
+
+export interface RolloverPlan {
+    weeks: WeekHistory[];        // Newest first, ready to prepend to history
+    resetTimerIds: string[];     // Timers whose counters were archived and must be zeroed
+}
+
+// Archive every week that has ended since the last archived one, including weeks with no
+// progress at all so gaps show up in History and in goal hit rates.
+//
+// Timers with entries are attributed exactly. Timers that predate entries only have
+// counters; that progress goes to the week of their last write (the latest it can have
+// happened), or the most recent ended week if that is unknown. If the last write was
+// this week the progress may be this week's, so it stays in the counters.
+export const planRollover = (
+    allTimers: Timer[],
+    entries: TimeEntry[],
+    history: WeekHistory[],
+    settings: UserSettings,
+    now: number
+): RolloverPlan => {
+    const empty: RolloverPlan = { weeks: [], resetTimerIds: [] };
+    // Pomodoros credit their work to other timers and have no week of their own
+    const timers = allTimers.filter(t => t.type !== 'pomodoro');
+    if (timers.length === 0) return empty;
+
+    const thisWeek = getWeekStart(new Date(now), settings).getTime();
+    const hasEntries = (t: Timer) => entries.some(e => e.timerId === t.id);
+    const legacy = timers.filter(t => !hasEntries(t) && counterProgress(t) > 0);
+
+    // Where to start walking: the week after the newest archived one, else the first
+    // week we have any sessions for, else (legacy counters only) last week.
+    const archivedTimes = history.map(h => new Date(h.weekStart).getTime());
+    let cursor: number;
+    if (archivedTimes.length > 0) {
+        const newest = getWeekStart(new Date(Math.max(...archivedTimes)), settings);
+        cursor = addWeeks(newest, 1, settings).getTime();
+    } else {
+        const ownEntries = entries.filter(e => timers.some(t => t.id === e.timerId));
+        if (ownEntries.length > 0) {
+            const earliest = Math.min(...ownEntries.map(e => e.startedAt));
+            cursor = getWeekStart(new Date(earliest), settings).getTime();
+        } else if (legacy.length > 0) {
+            cursor = addWeeks(new Date(thisWeek), -1, settings).getTime();
+        } else {
+            return empty;
+        }
+    }
+
+    const weekStarts: number[] = [];
+    while (cursor < thisWeek) {
+        weekStarts.push(cursor);
+        cursor = addWeeks(new Date(cursor), 1, settings).getTime();
+    }
+    if (weekStarts.length === 0) return empty;
+
+    const legacyWeek = new Map<string, number>();
+    for (const t of legacy) {
+        const lastWrite = t.updatedAt ?? t.lastTickAt;
+        const week = lastWrite !== undefined ? getWeekStart(new Date(lastWrite), settings).getTime() : undefined;
+        if (week !== undefined && week >= thisWeek) continue;
+        // Clamp into the weeks being archived
+        legacyWeek.set(t.id, weekStarts.find(w => week !== undefined && w >= week) ?? weekStarts[weekStarts.length - 1]);
+    }
+
+    // Boundaries can shift by up to a day when settings change; don't archive a week twice.
+    const isArchived = (weekStart: number) => archivedTimes.some(h => Math.abs(h - weekStart) < DAY_MS);
+
+    const weeks = weekStarts
+        .filter(weekStart => !isArchived(weekStart))
+        .map((weekStart): WeekHistory => {
+            const weekEnd = addWeeks(new Date(weekStart), 1, settings).getTime();
+            // Timers archived before the week began weren't around for it
+            const present = timers.filter(t => !t.archivedAt || t.archivedAt > weekStart);
+            return {
+                id: crypto.randomUUID(),
+                weekStart: new Date(weekStart).toISOString(),
+                timersSnapshot: present.map(t => snapshotItem(
+                    t,
+                    hasEntries(t)
+                        ? completedSecondsBetween(entries, t.id, weekStart, weekEnd, now)
+                        : legacyWeek.get(t.id) === weekStart ? counterProgress(t) : 0,
+                    t.type === 'daily' ? dailyResults(t, entries, weekStart, settings, weekEnd) : undefined,
+                )),
+            };
+        })
+        .reverse();
+
+    const archivedWeeks = new Set(weeks.map(w => new Date(w.weekStart).getTime()));
+    const resetTimerIds = legacy
+        .filter(t => legacyWeek.has(t.id) && archivedWeeks.has(legacyWeek.get(t.id)!))
+        .map(t => t.id);
+
+    return { weeks, resetTimerIds };
+};
+
+export interface BackdatePlan {
+    updatedWeeks: WeekHistory[];  // Archived weeks with the entry's seconds added
+    newWeeks: WeekHistory[];      // Ended weeks nothing was archived for yet
+}
+
+// Daily quotas also pass the seconds day by day, as `days`
+const creditSnapshot = (week: WeekHistory, timer: Timer, seconds: number, days?: DayResult[]): WeekHistory => {
+    const credit = (item: SnapshotItem): SnapshotItem => ({
+        ...item,
+        completedSeconds: item.completedSeconds + seconds,
+        ...(item.days && days
+            ? { days: item.days.map((d, i) => ({ ...d, completedSeconds: d.completedSeconds + days[i].completedSeconds })) }
+            : {}),
+    });
+    return {
+        ...week,
+        timersSnapshot: week.timersSnapshot.some(item => isSnapshotOf(item, timer))
+            ? week.timersSnapshot.map(item => isSnapshotOf(item, timer) ? credit(item) : item)
+            : [...week.timersSnapshot, snapshotItem(timer, seconds, days)],
+    };
+};
+
+// The part of a manual entry that falls in weeks that have already ended goes to those
+// weeks' snapshots rather than the current counters.
+export const planBackdatedEntry = (
+    timer: Timer,
+    entry: TimeEntry,
+    history: WeekHistory[],
+    settings: UserSettings,
+    now: number
+): BackdatePlan => {
+    const plan: BackdatePlan = { updatedWeeks: [], newWeeks: [] };
+    const thisWeek = getWeekStart(new Date(now), settings).getTime();
+    const entryEnd = entry.endedAt ?? now;
+
+    let weekStart = getWeekStart(new Date(entry.startedAt), settings).getTime();
+    while (weekStart < thisWeek && weekStart < entryEnd) {
+        const weekEnd = addWeeks(new Date(weekStart), 1, settings).getTime();
+        const seconds = overlapSeconds(entry, weekStart, weekEnd, now);
+        if (seconds > 0) {
+            const archived = history.find(h => Math.abs(new Date(h.weekStart).getTime() - weekStart) < DAY_MS);
+            const days = timer.type === 'daily' ? dailyResults(timer, [entry], weekStart, settings, now) : undefined;
+            if (archived) {
+                plan.updatedWeeks.push(creditSnapshot(archived, timer, seconds, days));
+            } else {
+                plan.newWeeks.push({
+                    id: crypto.randomUUID(),
+                    weekStart: new Date(weekStart).toISOString(),
+                    timersSnapshot: [snapshotItem(timer, seconds, days)],
+                });
+            }
+        }
+        weekStart = weekEnd;
+    }
+
+    return plan;
+};
+
+// A pomodoro starts over from its first work interval
+export const clearCounters = (t: Timer): Timer => {
+    if (t.type === 'pomodoro') return restartPomodoro(t);
+    return {
+        ...t,
+        remainingSeconds: t.totalSeconds,
+        elapsedSeconds: 0,
+        isRunning: false,
+        lastTickAt: undefined,
+    };
+};
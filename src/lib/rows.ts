@@ -0,0 +1,164 @@
+import type { NotificationPrefs, PomodoroConfig, PomodoroPhase, Timer, TimerSize, TimerType, TimeEntry, TimeEntrySource, UserSettings, WeekHistory } from '../types';
+import { DEFAULT_SETTINGS, isValidTimeZone } from './week';
+import { isFocusMode } from './focus';
+import { isNotificationPrefs } from './notifications';
+
+// Row shapes as returned by Supabase (snake_case). bigint columns come back as strings.
+
+export interface TimerRow {
+    id: string;
+    title: string;
+    type: TimerType | null;
+    total_seconds: number;
+    remaining_seconds: number;
+    elapsed_seconds: number;
+    is_running: boolean;
+    last_tick_at: number | string | null;
+    color: string;
+    size: TimerSize;
+    updated_at: number | string | null;
+    updated_by: string | null;
+    archived_at: number | string | null;
+    overtime: boolean | null;
+    work_days: number[] | null;
+    pomodoro: PomodoroConfig | null;
+    phase: PomodoroPhase | null;
+    cycles: number | null;
+    work_from: number | string | null;
+}
+
+export interface WeekHistoryRow {
+    id: string;
+    week_start: string;
+    snapshot_json: WeekHistory['timersSnapshot'] | null;
+}
+
+export interface TimeEntryRow {
+    id: string;
+    timer_id: string;
+    started_at: number | string;
+    ended_at: number | string | null;
+    source: TimeEntrySource | null;
+    adjust_seconds: number | null;
+    reason: string | null;
+}
+
+export interface UserSettingsRow {
+    user_id: string;
+    week_start_day: number;
+    timezone: string | null;
+    rollover_hour: number;
+    focus_mode: string | null;
+    notifications: NotificationPrefs | null;
+    idle_minutes: number | null;
+}
+
+export const timerFromRow = (d: TimerRow): Timer => ({
+    id: d.id,
+    title: d.title,
+    type: d.type || 'goal',
+    totalSeconds: d.total_seconds,
+    remainingSeconds: d.remaining_seconds,
+    elapsedSeconds: d.elapsed_seconds,
+    isRunning: d.is_running,
+    lastTickAt: d.last_tick_at ? Number(d.last_tick_at) : undefined,
+    color: d.color,
+    size: d.size,
+    updatedAt: d.updated_at ? Number(d.updated_at) : undefined,
+    updatedBy: d.updated_by ?? undefined,
+    archivedAt: d.archived_at ? Number(d.archived_at) : undefined,
+    overtime: d.overtime || undefined,
+    workDays: d.work_days ?? undefined,
+    pomodoro: d.pomodoro ?? undefined,
+    phase: d.phase ?? undefined,
+    cycles: d.cycles ?? undefined,
+    workFrom: d.work_from ? Number(d.work_from) : undefined,
+});
+
+export const historyFromRow = (d: WeekHistoryRow): WeekHistory => ({
+    id: d.id,
+    weekStart: d.week_start,
+    timersSnapshot: d.snapshot_json || [],
+});
+
+export const entryFromRow = (d: TimeEntryRow): TimeEntry => ({
+    id: d.id,
+    timerId: d.timer_id,
+    startedAt: Number(d.started_at),
+    endedAt: d.ended_at !== null ? Number(d.ended_at) : undefined,
+    source: d.source || 'live',
+    adjustSeconds: d.adjust_seconds ?? undefined,
+    reason: d.reason ?? undefined,
+});
+
+export const entryToRow = (e: TimeEntry, userId: string) => ({
+    id: e.id,
+    user_id: userId,
+    timer_id: e.timerId,
+    started_at: e.startedAt,
+    ended_at: e.endedAt ?? null,
+    source: e.source,
+    adjust_seconds: e.adjustSeconds ?? null,
+    reason: e.reason ?? null,
+});
+
+// Running state, counters (a pomodoro's interval among them) and archive flag, plus the
+// version stamp. Written on toggles, logs, resets and archiving.
+export const timerStateToRow = (t: Timer) => ({
+    remaining_seconds: t.remainingSeconds,
+    elapsed_seconds: t.elapsedSeconds,
+    is_running: t.isRunning,
+    last_tick_at: t.lastTickAt ?? null, // Explicit null for DB
+    updated_at: t.updatedAt ?? null,
+    updated_by: t.updatedBy ?? null,
+    archived_at: t.archivedAt ?? null,
+    phase: t.phase ?? null,
+    cycles: t.cycles ?? null,
+    work_from: t.workFrom ?? null,
+});
+
+// What the timer form edits
+export const timerDetailsToRow = (t: Timer) => ({
+    title: t.title,
+    type: t.type,
+    total_seconds: t.totalSeconds,
+    color: t.color,
+    size: t.size,
+    overtime: t.overtime ?? false,
+    work_days: t.workDays ?? null,
+    pomodoro: t.pomodoro ?? null,
+});
+
+export const timerToRow = (t: Timer, userId: string) => ({
+    id: t.id,
+    user_id: userId,
+    ...timerDetailsToRow(t),
+    ...timerStateToRow(t),
+});
+
+export const historyToRow = (h: WeekHistory, userId: string) => ({
+    id: h.id,
+    user_id: userId,
+    week_start: h.weekStart,
+    snapshot_json: h.timersSnapshot,
+});
+
+export const settingsFromRow = (d: UserSettingsRow): UserSettings => ({
+    weekStartDay: d.week_start_day,
+    timezone: d.timezone && isValidTimeZone(d.timezone) ? d.timezone : DEFAULT_SETTINGS.timezone,
+    rolloverHour: d.rollover_hour,
+    focusMode: isFocusMode(d.focus_mode) ? d.focus_mode : 'off',
+    notifications: isNotificationPrefs(d.notifications) ? d.notifications : undefined,
+    idleMinutes: d.idle_minutes ?? undefined,
+});
+
+export const settingsToRow = (s: UserSettings, userId: string) => ({
+    user_id: userId,
+    week_start_day: s.weekStartDay,
+    timezone: s.timezone,
+    rollover_hour: s.rolloverHour,
+    focus_mode: s.focusMode ?? 'off',
+    notifications: s.notifications ?? null,
+    idle_minutes: s.idleMinutes ?? null,
+    updated_at: new Date().toISOString(),
+});
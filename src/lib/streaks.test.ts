@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { goalStreak } from './streaks';
+import { goal } from './testFixtures';
+import type { WeekHistory } from '../types';
+
+const GOAL = 4 * 3600;
+
+const timer = goal({ totalSeconds: GOAL, remainingSeconds: GOAL });
+
+// Consecutive weeks from 2025-01-06, newest first like history; true = goal met
+const weeks = (results: boolean[], item: Partial<WeekHistory['timersSnapshot'][number]> = {}): WeekHistory[] =>
+    results.map((met, i): WeekHistory => ({
+        id: `h${i}`,
+        weekStart: new Date(Date.UTC(2025, 0, 6 + i * 7, 4)).toISOString(),
+        timersSnapshot: [{
+            timerId: 'goal',
+            title: 'Work',
+            type: 'goal',
+            totalSeconds: GOAL,
+            completedSeconds: met ? GOAL : GOAL / 2,
+            color: '#007aff',
+            ...item,
+        }],
+    })).reverse();
+
+describe('goalStreak', () => {
+    it('counts the latest run of met weeks and the longest one', () => {
+        expect(goalStreak(timer, weeks([true, true, true, false, true, true]))).toEqual({ current: 2, longest: 3, metThisWeek: false });
+    });
+
+    it('adds the current week once its goal is met', () => {
+        const met = { ...timer, remainingSeconds: 0 };
+        expect(goalStreak(met, weeks([false, true, true]))).toEqual({ current: 3, longest: 3, metThisWeek: true });
+    });
+
+    it('matches snapshots by timer id, so a rename keeps the streak', () => {
+        const renamed = { ...timer, title: 'Deep work' };
+        expect(goalStreak(renamed, weeks([true, true])).current).toBe(2);
+        expect(goalStreak({ ...timer, id: 'other' }, weeks([true, true])).current).toBe(0);
+    });
+
+    it('falls back to title and type for snapshots without an id', () => {
+        expect(goalStreak(timer, weeks([true, true], { timerId: undefined })).current).toBe(2);
+    });
+
+    it('breaks on weeks the timer was missing or not a goal', () => {
+        const history = weeks([true, true, true]);
+        history[1] = { ...history[1], timersSnapshot: [] };
+        expect(goalStreak(timer, history).current).toBe(1);
+
+        const tracked = weeks([true, true], { type: 'stopwatch', totalSeconds: 0 });
+        expect(goalStreak(timer, tracked)).toEqual({ current: 0, longest: 0, metThisWeek: false });
+    });
+});
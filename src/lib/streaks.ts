@@ -0,0 +1,28 @@
+import type { Timer, WeekHistory } from '../types';
+import { isGoalMet, isSnapshotOf } from './rollover';
+
+export interface GoalStreak {
+    current: number;      // Consecutive weeks met up to now, this week included once it is met
+    longest: number;
+    metThisWeek: boolean;
+}
+
+// Streaks run over archived weeks, which rollover keeps contiguous. A week the goal wasn't
+// met, or the timer wasn't tracked as a goal, ends a streak. The current week only counts
+// once it is met, so a streak isn't lost while the week is still in progress. A daily
+// quota's week can't be met before its last day is, so it only counts once archived.
+export const goalStreak = (timer: Timer, history: WeekHistory[]): GoalStreak => {
+    const metThisWeek = timer.type === 'goal' && timer.totalSeconds > 0 && timer.remainingSeconds <= 0;
+
+    const weeks = [...history].sort((a, b) => new Date(a.weekStart).getTime() - new Date(b.weekStart).getTime());
+    let run = 0;
+    let longest = 0;
+    for (const week of weeks) {
+        const item = week.timersSnapshot.find(i => isSnapshotOf(i, timer));
+        run = item && isGoalMet(item) ? run + 1 : 0;
+        longest = Math.max(longest, run);
+    }
+
+    const current = metThisWeek ? run + 1 : run;
+    return { current, longest: Math.max(longest, current), metThisWeek };
+};
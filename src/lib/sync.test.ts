@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { mergeHistory } from './sync';
+import type { WeekHistory } from '../types';
+
+const week = (id: string, weekStart: string): WeekHistory => ({ id, weekStart, timersSnapshot: [] });
+
+describe('mergeHistory', () => {
+    it('keeps one snapshot per week when another device archived it under its own id', () => {
+        const ours = [week('a', '2025-01-13T00:00:00.000Z'), week('b', '2025-01-06T00:00:00.000Z')];
+        const merged = mergeHistory(ours, week('c', '2025-01-13T00:00:00+00:00'));
+        expect(merged.map(h => h.id)).toEqual(['c', 'b']);
+    });
+
+    it('adds new weeks newest first', () => {
+        const merged = mergeHistory([week('b', '2025-01-06T00:00:00.000Z')], week('a', '2025-01-13T00:00:00.000Z'));
+        expect(merged.map(h => h.id)).toEqual(['a', 'b']);
+    });
+});
@@ -0,0 +1,44 @@
+import type { Timer, TimeEntry, WeekHistory } from '../types';
+
+// Timers carry a (updatedAt, updatedBy) version stamped on every write. lastTickAt alone
+// can't order two writes: it advances locally every second and is cleared on pause.
+// Ties on the timestamp are broken by device id so every client picks the same winner.
+export const compareVersions = (a: Timer, b: Timer): number =>
+    (a.updatedAt ?? 0) - (b.updatedAt ?? 0) || (a.updatedBy ?? '').localeCompare(b.updatedBy ?? '');
+
+// PostgREST filter matching rows whose stored version is older than (updatedAt, updatedBy),
+// so a conditional update only lands if it would also win locally.
+export const olderVersionFilter = (updatedAt: number, updatedBy: string): string =>
+    `updated_at.is.null,updated_at.lt.${updatedAt},and(updated_at.eq.${updatedAt},updated_by.lt.${updatedBy})`;
+
+export const mergeTimer = (timers: Timer[], incoming: Timer): Timer[] => {
+    const current = timers.find(t => t.id === incoming.id);
+    if (!current) return [...timers, incoming];
+    if (compareVersions(incoming, current) <= 0) return timers;
+    // A running timer's counters are as of its lastTickAt; the tick loop catches it up.
+    return timers.map(t => t.id === incoming.id ? incoming : t);
+};
+
+// There is one snapshot per week. Two devices that archive the same week each give it their
+// own id; whichever write reaches the server last takes over the row (see weekOp in
+// TimerContext), so a week is matched on its start as well as its id.
+export const mergeHistory = (history: WeekHistory[], incoming: WeekHistory): WeekHistory[] => {
+    const weekStart = new Date(incoming.weekStart).getTime();
+    const next = [
+        ...history.filter(h => h.id !== incoming.id && new Date(h.weekStart).getTime() !== weekStart),
+        incoming,
+    ];
+    return next.sort((a, b) => new Date(b.weekStart).getTime() - new Date(a.weekStart).getTime());
+};
+
+// Inserts are echoes of sessions we usually already know about (and may have closed since),
+// so only updates overwrite what we have.
+export const mergeEntry = (entries: TimeEntry[], incoming: TimeEntry, isUpdate: boolean): TimeEntry[] => {
+    if (!entries.some(e => e.id === incoming.id)) return [...entries, incoming];
+    return isUpdate ? entries.map(e => e.id === incoming.id ? incoming : e) : entries;
+};
+
+// Two devices may both close the same session. Keeping the earliest end makes the result
+// independent of which update arrives last.
+export const laterEndFilter = (endedAt: number): string =>
+    `ended_at.is.null,ended_at.gt.${endedAt}`;
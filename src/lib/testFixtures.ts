@@ -0,0 +1,35 @@
+import type { Timer, UserSettings } from '../types';
+
+// Timers, settings and instants the lib tests share. Tests that need something else
+// override what differs, e.g. goal({ totalSeconds: 10 * 3600 }).
+
+export const MIN = 60 * 1000;
+export const HOUR = 60 * MIN;
+
+// Weeks start on Monday at midnight UTC
+export const SETTINGS: UserSettings = { weekStartDay: 1, timezone: 'UTC', rolloverHour: 0 };
+
+// Wednesday 2025-01-15 12:00 UTC; its week starts Monday 2025-01-13
+export const NOW = Date.UTC(2025, 0, 15, 12);
+export const MONDAY = Date.UTC(2025, 0, 13);
+
+// The same, read in Berlin: Wednesday 2025-01-08 12:00 there
+export const BERLIN_SETTINGS: UserSettings = { ...SETTINGS, timezone: 'Europe/Berlin' };
+export const BERLIN_NOW = Date.UTC(2025, 0, 8, 11);
+
+// A one-hour weekly goal, paused, nothing tracked yet
+export const goal = (overrides: Partial<Timer> = {}): Timer => ({
+    id: 'goal',
+    type: 'goal',
+    title: 'Work',
+    totalSeconds: 3600,
+    remainingSeconds: 3600,
+    elapsedSeconds: 0,
+    isRunning: false,
+    color: '#007aff',
+    size: 'small',
+    ...overrides,
+});
+
+export const stopwatch = (overrides: Partial<Timer> = {}): Timer =>
+    goal({ id: 'watch', type: 'stopwatch', title: 'Cooking', totalSeconds: 0, remainingSeconds: 0, ...overrides });
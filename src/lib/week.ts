@@ -0,0 +1,103 @@
+import type { UserSettings } from '../types';
+
+export const browserTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export const DEFAULT_SETTINGS: UserSettings = {
+    weekStartDay: 1,
+    timezone: browserTimeZone(),
+    rolloverHour: 0,
+};
+
+export const isValidTimeZone = (tz: string): boolean => {
+    try {
+        new Intl.DateTimeFormat(undefined, { timeZone: tz });
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+const HOUR_MS = 1000 * 60 * 60;
+export const DAY_MS = HOUR_MS * 24;
+
+// Wall-clock time in `timeZone` at `instant`, encoded as if it were UTC. Lets us do
+// calendar arithmetic with Date.UTC and getUTC* without worrying about DST.
+const toWallClock = (instant: number, timeZone: string): number => {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric', month: 'numeric', day: 'numeric',
+        hour: 'numeric', minute: 'numeric', second: 'numeric',
+    }).formatToParts(instant);
+    const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value);
+    return Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+};
+
+// Inverse of toWallClock. The offset is re-checked once at the result so that DST
+// transitions between the guess and the answer come out right.
+const fromWallClock = (wall: number, timeZone: string): number => {
+    const firstGuess = wall - (toWallClock(wall, timeZone) - wall);
+    return wall - (toWallClock(firstGuess, timeZone) - firstGuess);
+};
+
+// Start of the week containing `date`: the configured weekday at the rollover hour,
+// in the configured timezone.
+export const getWeekStart = (date: Date = new Date(), settings: UserSettings = DEFAULT_SETTINGS): Date => {
+    // Shift back by the rollover hour so that e.g. 02:00 with a 04:00 rollover still
+    // belongs to the previous day.
+    const shifted = toWallClock(date.getTime(), settings.timezone) - settings.rolloverHour * HOUR_MS;
+    const day = new Date(shifted);
+    const daysBack = (day.getUTCDay() - settings.weekStartDay + 7) % 7;
+    const startWall = Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), day.getUTCDate() - daysBack, settings.rolloverHour);
+    return new Date(fromWallClock(startWall, settings.timezone));
+};
+
+// Start of the day containing `date`: the rollover hour, in the configured timezone.
+// Days begin at the rollover hour like the week, so 02:00 with a 04:00 rollover is still
+// part of the day before.
+export const getDayStart = (date: Date = new Date(), settings: UserSettings = DEFAULT_SETTINGS): Date => {
+    const day = new Date(toWallClock(date.getTime(), settings.timezone) - settings.rolloverHour * HOUR_MS);
+    const startWall = Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), day.getUTCDate(), settings.rolloverHour);
+    return new Date(fromWallClock(startWall, settings.timezone));
+};
+
+// Weekday (0 = Sunday) of the day containing `date`, with days beginning at the rollover hour
+export const getWeekday = (date: Date, settings: UserSettings = DEFAULT_SETTINGS): number =>
+    new Date(toWallClock(date.getTime(), settings.timezone) - settings.rolloverHour * HOUR_MS).getUTCDay();
+
+// Calendar days, so a day spanning a DST change is 23 or 25 hours long.
+export const addDays = (date: Date, days: number, settings: UserSettings = DEFAULT_SETTINGS): Date => {
+    const wall = toWallClock(date.getTime(), settings.timezone);
+    return new Date(fromWallClock(wall + days * DAY_MS, settings.timezone));
+};
+
+export const addWeeks = (date: Date, weeks: number, settings: UserSettings = DEFAULT_SETTINGS): Date =>
+    addDays(date, weeks * 7, settings);
+
+// Start of each of the 7 days of the week starting at `weekStart`. Days begin at the
+// rollover hour, like the week itself.
+export const weekDays = (weekStart: number, settings: UserSettings): number[] =>
+    Array.from({ length: 7 }, (_, i) => addDays(new Date(weekStart), i, settings).getTime());
+
+// Instant of a date input ('YYYY-MM-DD') and time input ('HH:MM') read in the configured timezone
+export const zonedDateTime = (date: string, time: string, settings: UserSettings = DEFAULT_SETTINGS): number => {
+    const [year, month, day] = date.split('-').map(Number);
+    const [hour, minute] = time.split(':').map(Number);
+    return fromWallClock(Date.UTC(year, month - 1, day, hour, minute), settings.timezone);
+};
+
+// 'YYYY-MM-DD' of `instant` in the configured timezone, for date inputs
+export const zonedDateInput = (instant: number, settings: UserSettings = DEFAULT_SETTINGS): string =>
+    new Date(toWallClock(instant, settings.timezone)).toISOString().slice(0, 10);
+
+// 'HH:MM' of `instant` in the configured timezone, for time inputs
+export const zonedTimeInput = (instant: number, settings: UserSettings = DEFAULT_SETTINGS): string =>
+    new Date(toWallClock(instant, settings.timezone)).toISOString().slice(11, 16);
+
+export const formatWeekLabel = (weekStart: string, settings: UserSettings = DEFAULT_SETTINGS): string =>
+    new Date(weekStart).toLocaleDateString(undefined, {
+        timeZone: settings.timezone,
+        year: 'numeric', month: 'short', day: 'numeric',
+    });
+
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
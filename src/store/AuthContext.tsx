@@ -7,15 +7,22 @@ interface AuthContextType {
     session: Session | null;
     user: User | null;
     loading: boolean;
+    isGuest: boolean;
     signOut: () => Promise<void>;
+    continueAsGuest: () => void;
+    leaveGuestMode: () => void;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+const STORAGE_KEY_GUEST = 'weektime_guest';
+
 export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
     const [session, setSession] = useState<Session | null>(null);
     const [user, setUser] = useState<User | null>(null);
     const [loading, setLoading] = useState(true);
+    // Guests use the app without signing in; their data stays in localStorage.
+    const [guestMode, setGuestMode] = useState(() => localStorage.getItem(STORAGE_KEY_GUEST) === 'true');
 
     useEffect(() => {
         // Check active session
@@ -32,6 +39,11 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
             setSession(session);
             setUser(session?.user ?? null);
             setLoading(false);
+            // Signing in ends guest mode, so signing out later returns to the login screen
+            if (session) {
+                localStorage.removeItem(STORAGE_KEY_GUEST);
+                setGuestMode(false);
+            }
         });
 
         return () => subscription.unsubscribe();
@@ -41,8 +53,21 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         await supabase.auth.signOut();
     };
 
+    const continueAsGuest = () => {
+        localStorage.setItem(STORAGE_KEY_GUEST, 'true');
+        setGuestMode(true);
+    };
+
+    // Back to the sign-in screen; local data is kept so it can be uploaded after signing in.
+    const leaveGuestMode = () => {
+        localStorage.removeItem(STORAGE_KEY_GUEST);
+        setGuestMode(false);
+    };
+
+    const isGuest = guestMode && !user;
+
     return (
-        <AuthContext.Provider value={{ session, user, loading, signOut }}>
+        <AuthContext.Provider value={{ session, user, loading, isGuest, signOut, continueAsGuest, leaveGuestMode }}>
             {children}
         </AuthContext.Provider>
     );
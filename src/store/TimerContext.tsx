@@ -1,86 +1,299 @@
-import React, { createContext, useContext, useEffect, useState } from 'react';
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
 import type { ReactNode } from 'react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from './AuthContext';
-import type { Timer, WeekHistory, TimerType } from '../types';
+import { getDayStart, getWeekStart, DEFAULT_SETTINGS } from '../lib/week';
+import { deriveTimer } from '../lib/entries';
+import { planBackdatedEntry } from '../lib/rollover';
+import { createTimerEngine } from '../lib/engine';
+import { focusRivals } from '../lib/focus';
+import { cutIdleTime } from '../lib/idle';
+import type { IdlePeriod } from '../lib/idle';
+import { entryFromRow, entryToRow, historyFromRow, historyToRow, settingsFromRow, settingsToRow, timerDetailsToRow, timerFromRow, timerStateToRow, timerToRow } from '../lib/rows';
+import type { TimeEntryRow, TimerRow, UserSettingsRow, WeekHistoryRow } from '../lib/rows';
+import { getDeviceId } from '../lib/device';
+import { laterEndFilter, mergeEntry, mergeHistory, mergeTimer, olderVersionFilter } from '../lib/sync';
+import { pendingInsertIds } from '../lib/outbox';
+import type { OutboxOp } from '../lib/outbox';
+import { useOutbox } from './useOutbox';
+import { hasTimerData, planGuestMerge } from '../lib/guestMerge';
+import type { TimerData } from '../lib/guestMerge';
+import { rekeyBackup } from '../lib/backup';
+import type { Backup } from '../lib/backup';
+import type { ManualSession, Timer, TimerEdit, WeekHistory, TimeEntry, UserSettings } from '../types';
 
 interface TimerContextType {
-    timers: Timer[];
+    timers: Timer[];            // Active timers (archived ones are left out)
+    archivedTimers: Timer[];
     history: WeekHistory[];
+    entries: TimeEntry[];
+    settings: UserSettings;
+    pendingWrites: number;
+    failedWrites: number;       // Rejected by the server, so only on this device
+    dismissFailedWrites: () => void;
+    guestData: TimerData | null;
+    importGuestData: () => void;
+    discardGuestData: () => void;
     addTimer: (timer: Omit<Timer, 'id' | 'remainingSeconds' | 'isRunning' | 'lastTickAt'>) => void;
-    updateTimer: (id: string, updates: Partial<Timer>) => void;
+    updateTimer: (id: string, updates: TimerEdit) => void;
+    archiveTimer: (id: string) => void;
+    restoreTimer: (id: string) => void;
     deleteTimer: (id: string) => void;
     toggleTimer: (id: string) => void;
     deductTime: (id: string, seconds: number) => void;
+    logEntry: (id: string, startedAt: number, endedAt: number) => void;
+    logEntries: (newTimers: Timer[], sessions: ManualSession[]) => void;
+    correctTime: (id: string, completedSeconds: number, reason: string) => void;
+    skipInterval: (id: string) => void;
+    discardIdleTime: (period: IdlePeriod, reassignTo?: string) => void;
     resetWeek: () => void;
+    updateSettings: (settings: UserSettings) => void;
+    restoreBackup: (backup: Backup, mode: 'replace' | 'merge') => void;
 }
 
 const TimerContext = createContext<TimerContextType | undefined>(undefined);
 
 const STORAGE_KEY_TIMERS = 'weektime_timers';
 const STORAGE_KEY_HISTORY = 'weektime_history';
+const STORAGE_KEY_ENTRIES = 'weektime_entries';
+const STORAGE_KEY_SETTINGS = 'weektime_settings';
+
+const readStored = <T,>(key: string): T[] => {
+    try {
+        return JSON.parse(localStorage.getItem(key) || '[]');
+    } catch {
+        return [];
+    }
+};
+
+const engine = createTimerEngine();
+
+// Version stamp for a timer write made at `now` by this device (see lib/sync.ts)
+const stamp = (now: number) => ({ updatedAt: now, updatedBy: getDeviceId() });
+
+// Timer state write that only lands if its version is newer than the stored one, so
+// concurrent toggles from two devices resolve to the same winner whichever request reaches
+// the server last. See resolveConflict for the losing side.
+const versionedTimerOp = (t: Timer): OutboxOp => ({
+    table: 'timers',
+    action: 'update',
+    id: t.id,
+    values: timerStateToRow(t),
+    filter: olderVersionFilter(t.updatedAt ?? 0, t.updatedBy ?? ''),
+    guard: true,
+});
+
+const closeEntryOp = (e: TimeEntry): OutboxOp => ({
+    table: 'time_entries',
+    action: 'update',
+    id: e.id,
+    values: { ended_at: e.endedAt },
+    filter: laterEndFilter(e.endedAt ?? 0),
+});
+
+const insertEntryOp = (e: TimeEntry, userId: string): OutboxOp => ({
+    table: 'time_entries',
+    action: 'insert',
+    id: e.id,
+    values: entryToRow(e, userId),
+});
+
+// A focus mode switch as one write: the timers and their sessions change together or not
+// at all (switch_timers in schema.sql), each timer with the version check of versionedTimerOp
+const switchTimersOp = (changed: Timer[], ended: TimeEntry[], started: TimeEntry[], userId: string): OutboxOp => ({
+    table: 'timers',
+    action: 'rpc',
+    fn: 'switch_timers',
+    id: changed[0].id,
+    ids: changed.map(t => t.id),
+    values: {
+        timer_states: changed.map(t => ({ id: t.id, ...timerStateToRow(t) })),
+        ended_entries: ended.map(e => ({ id: e.id, ended_at: e.endedAt })),
+        started_entries: started.map(e => entryToRow(e, userId)),
+    },
+    guard: true,
+});
+
+// Week snapshot write, matched on the week rather than the id. If another device archived
+// the same week first, this takes over its row instead of failing as a duplicate and leaving
+// us with a snapshot id the server doesn't have (see mergeHistory).
+const weekOp = (h: WeekHistory, userId: string): OutboxOp => ({
+    table: 'week_history',
+    action: 'upsert',
+    id: h.id,
+    values: historyToRow(h, userId),
+    onConflict: 'user_id,week_start',
+});
 
 export const TimerProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
     const { user } = useAuth();
     const [timers, setTimers] = useState<Timer[]>([]);
     const [history, setHistory] = useState<WeekHistory[]>([]);
+    const [entries, setEntries] = useState<TimeEntry[]>([]);
+    // Data a guest left in localStorage, offered for upload after signing in
+    const [guestData, setGuestData] = useState<TimerData | null>(null);
+    const [settings, setSettings] = useState<UserSettings>(DEFAULT_SETTINGS);
+    const timersRef = useRef(timers);
+    const entriesRef = useRef(entries);
+    const historyRef = useRef(history);
+    const settingsRef = useRef(settings);
+    // Start of the week the counters are currently derived for
+    const currentWeekRef = useRef<number | undefined>(undefined);
+    // Start of the day daily quotas are currently derived for
+    const currentDayRef = useRef<number | undefined>(undefined);
+    // The tick loop logs the work of pomodoro intervals that ended through this
+    const logEntriesRef = useRef<(newTimers: Timer[], sessions: ManualSession[]) => void>(() => {});
+
+    // Adopt the stored row of a timer and its sessions, keeping local sessions still queued.
+    // False if either couldn't be read, leaving local state as it is.
+    const adoptStoredTimer = async (id: string): Promise<boolean> => {
+        const [{ data: row, error: timerError }, { data: entryRows, error: entriesError }] = await Promise.all([
+            supabase.from('timers').select('*').eq('id', id).maybeSingle(),
+            supabase.from('time_entries').select('*').eq('timer_id', id).order('started_at', { ascending: true }),
+        ]);
+        if (timerError || entriesError) return false;
+
+        if (!row) {
+            setTimers(prev => prev.filter(t => t.id !== id));
+            setEntries(prev => prev.filter(e => e.timerId !== id));
+            return true;
+        }
+
+        const queued = pendingInsertIds('time_entries');
+        const stored = ((entryRows || []) as TimeEntryRow[]).map(entryFromRow).filter(e => !queued.has(e.id));
+        const nextEntries = [
+            ...entriesRef.current.filter(e => e.timerId !== id || queued.has(e.id)),
+            ...stored,
+        ];
+        const winner = deriveTimer(timerFromRow(row as TimerRow), nextEntries, settingsRef.current, engine.now());
+
+        entriesRef.current = nextEntries;
+        setEntries(nextEntries);
+        setTimers(prev => mergeTimer(prev, winner));
+        return true;
+    };
+
+    // Another device wrote a timer of our batch with a newer version, so the rest of the
+    // batch was dropped. Every timer the batch writes goes back to what is stored, the ones
+    // written before the conflict included, e.g. all sides of a focus mode switch. If the
+    // server can't be read the batch is kept and runs into the conflict again later.
+    const resolveConflict = async (timerIds: string[]) => {
+        for (const id of timerIds) {
+            if (!await adoptStoredTimer(id)) return false;
+        }
+        return true;
+    };
+
+    const { pending: pendingWrites, failed: failedWrites, dismissFailed: dismissFailedWrites, enqueue } = useOutbox(user?.id, resolveConflict);
+
+    // Archive ended weeks and derive the counters for the current one (see engine.rollover)
+    const applyRollover = useCallback((
+        loadedTimers: Timer[],
+        loadedEntries: TimeEntry[],
+        loadedHistory: WeekHistory[],
+        loadedSettings: UserSettings
+    ) => {
+        const plan = engine.rollover(loadedTimers, loadedEntries, loadedHistory, loadedSettings);
+        const version = stamp(engine.now());
+        const nextTimers = plan.timers.map(t => plan.resetTimerIds.includes(t.id) ? { ...t, ...version } : t);
+        const nextHistory = [...plan.weeks, ...loadedHistory];
+
+        currentWeekRef.current = plan.weekStart;
+        timersRef.current = nextTimers;
+        historyRef.current = nextHistory;
+        setTimers(nextTimers);
+        setHistory(nextHistory);
+
+        if (user && (plan.weeks.length > 0 || plan.resetTimerIds.length > 0)) {
+            // Reset DB (timers with entries are already derived for the new week)
+            enqueue([
+                ...plan.weeks.map(h => weekOp(h, user.id)),
+                ...plan.resetTimerIds.map((id): OutboxOp => ({
+                    table: 'timers',
+                    action: 'update',
+                    id,
+                    values: {
+                        remaining_seconds: loadedTimers.find(t => t.id === id)!.totalSeconds,
+                        elapsed_seconds: 0,
+                        is_running: false,
+                        last_tick_at: null,
+                        updated_at: version.updatedAt,
+                        updated_by: version.updatedBy
+                    }
+                }))
+            ]);
+        }
+    }, [user, enqueue]);
 
     // Initial Load & Sync
     useEffect(() => {
         if (!user) {
-            // Fallback to local storage if no user (or just clear? User asked for sync, implies login required? 
-            // Let's support local-only for non-logged in, but maybe merge later? 
-            // For now, simple: if logged in, use DB. If not, use LocalStorage.
-            const saved = localStorage.getItem(STORAGE_KEY_TIMERS);
-            if (saved) {
+            // Guest mode: everything lives in local storage. Unreadable data loads as empty, and
+            // signing in later offers to import it (see guestData).
+            let loadedEntries: TimeEntry[] = [];
+            const savedEntries = localStorage.getItem(STORAGE_KEY_ENTRIES);
+            if (savedEntries) {
                 try {
-                    const loaded: Timer[] = JSON.parse(saved);
-                    /* Catch up logic for local... same as before */
-                    const now = Date.now();
-                    const caughtUp = loaded.map(t => {
-                        if (t.isRunning && t.lastTickAt) {
-                            const deltaMs = now - t.lastTickAt;
-                            if (deltaMs > 0) {
-                                const secondsPassed = Math.floor(deltaMs / 1000);
-                                if (t.type === 'stopwatch') {
-                                    return {
-                                        ...t,
-                                        elapsedSeconds: (t.elapsedSeconds || 0) + secondsPassed,
-                                        lastTickAt: t.lastTickAt + (secondsPassed * 1000)
-                                    };
-                                } else {
-                                    const newRemaining = Math.max(0, t.remainingSeconds - secondsPassed);
-                                    const isFinished = newRemaining <= 0;
-                                    return {
-                                        ...t,
-                                        remainingSeconds: newRemaining,
-                                        lastTickAt: isFinished ? undefined : t.lastTickAt + (secondsPassed * 1000),
-                                        isRunning: !isFinished
-                                    };
-                                }
-                            }
-                        }
-                        return t;
-                    });
-                    setTimers(caughtUp);
-                } catch { setTimers([]) }
+                    loadedEntries = JSON.parse(savedEntries);
+                } catch {
+                    loadedEntries = [];
+                }
             }
+            setEntries(loadedEntries);
 
+            let loadedSettings = DEFAULT_SETTINGS;
+            const savedSettings = localStorage.getItem(STORAGE_KEY_SETTINGS);
+            if (savedSettings) {
+                try {
+                    loadedSettings = { ...DEFAULT_SETTINGS, ...JSON.parse(savedSettings) };
+                } catch {
+                    loadedSettings = DEFAULT_SETTINGS;
+                }
+            }
+            setSettings(loadedSettings);
+
+            let loadedHistory: WeekHistory[] = [];
             const savedHistory = localStorage.getItem(STORAGE_KEY_HISTORY);
             if (savedHistory) {
                 try {
-                    setHistory(JSON.parse(savedHistory));
+                    loadedHistory = JSON.parse(savedHistory);
                 } catch {
-                    setHistory([]);
+                    loadedHistory = [];
                 }
             }
 
+            // Don't carry a signed-out account's timers over into local storage
+            let loadedTimers: Timer[] = [];
+            const saved = localStorage.getItem(STORAGE_KEY_TIMERS);
+            if (saved) {
+                try {
+                    loadedTimers = engine.tick(JSON.parse(saved));
+                } catch { loadedTimers = [] }
+            }
 
+            // Archive any weeks that ended while the app was closed
+            applyRollover(loadedTimers, loadedEntries, loadedHistory, loadedSettings);
             return;
         }
 
         // Fetch from Supabase
         const fetchRemote = async () => {
+            const guest: TimerData = {
+                timers: readStored<Timer>(STORAGE_KEY_TIMERS),
+                history: readStored<WeekHistory>(STORAGE_KEY_HISTORY),
+                entries: readStored<TimeEntry>(STORAGE_KEY_ENTRIES),
+            };
+            setGuestData(hasTimerData(guest) ? guest : null);
+
+            // 0. Fetch Settings (everything below depends on where weeks start)
+            const { data: settingsData } = await supabase
+                .from('user_settings')
+                .select('*')
+                .eq('user_id', user.id)
+                .maybeSingle();
+            const loadedSettings = settingsData ? settingsFromRow(settingsData as UserSettingsRow) : DEFAULT_SETTINGS;
+            setSettings(loadedSettings);
+
             // 1. Fetch Timers
             const { data: timersData, error: timersError } = await supabase
                 .from('timers')
@@ -94,127 +307,85 @@ export const TimerProvider: React.FC<{ children: ReactNode }> = ({ children }) =
                 .eq('user_id', user.id)
                 .order('week_start', { ascending: false });
 
+            // 3. Fetch Time Entries
+            const { data: entriesData, error: entriesError } = await supabase
+                .from('time_entries')
+                .select('*')
+                .eq('user_id', user.id)
+                .order('started_at', { ascending: true });
+
+            let loadedEntries: TimeEntry[] = [];
+            if (entriesData && !entriesError) {
+                loadedEntries = (entriesData as TimeEntryRow[]).map(entryFromRow);
+                setEntries(loadedEntries);
+            }
+
             let loadedHistory: WeekHistory[] = [];
             if (historyData && !historyError) {
-                loadedHistory = historyData.map((d: any) => ({
-                    id: d.id,
-                    weekStart: d.week_start,
-                    timersSnapshot: d.timers_snapshot || [],
-                }));
+                loadedHistory = (historyData as WeekHistoryRow[]).map(historyFromRow);
                 setHistory(loadedHistory);
             }
 
             if (timersData && !timersError) {
-                const mapped: Timer[] = timersData.map((d: any) => ({
-                    id: d.id,
-                    title: d.title,
-                    type: d.type as TimerType,
-                    totalSeconds: d.total_seconds,
-                    remainingSeconds: d.remaining_seconds,
-                    elapsedSeconds: d.elapsed_seconds,
-                    isRunning: d.is_running,
-                    lastTickAt: d.last_tick_at ? parseInt(d.last_tick_at) : undefined,
-                    color: d.color,
-                    size: d.size as any,
-                }));
+                const mapped: Timer[] = (timersData as TimerRow[]).map(timerFromRow);
 
                 // Catch-up logic
-                const now = Date.now();
-                const caughtUp = mapped.map(t => {
-                    if (t.isRunning && t.lastTickAt) {
-                        const deltaMs = now - t.lastTickAt;
-                        if (deltaMs > 0) {
-                            const secondsPassed = Math.floor(deltaMs / 1000);
-                            if (t.type === 'stopwatch') {
-                                return {
-                                    ...t,
-                                    elapsedSeconds: (t.elapsedSeconds || 0) + secondsPassed,
-                                    lastTickAt: t.lastTickAt + (secondsPassed * 1000)
-                                };
-                            } else {
-                                const newRemaining = Math.max(0, t.remainingSeconds - secondsPassed);
-                                const isFinished = newRemaining <= 0;
-                                return {
-                                    ...t,
-                                    remainingSeconds: newRemaining,
-                                    lastTickAt: isFinished ? undefined : t.lastTickAt + (secondsPassed * 1000),
-                                    isRunning: !isFinished
-                                };
-                            }
-                        }
-                    }
-                    return t;
-                });
-                setTimers(caughtUp);
+                const caughtUp = engine.tick(mapped);
 
                 // --- Automatic Weekly Reset Check ---
-                const d = new Date();
-                const day = d.getDay();
-                const diff = d.getDate() - day + (day === 0 ? -6 : 1);
-                const monday = new Date(d.setDate(diff));
-                monday.setHours(0, 0, 0, 0);
-
-                const lastWeekStart = new Date(monday);
-                lastWeekStart.setDate(monday.getDate() - 7);
-                const lastWeekISO = lastWeekStart.toISOString();
-
-                // Check if we have history for last week
-                const hasLastWeekHistory = loadedHistory.some(h => {
-                    const hTime = new Date(h.weekStart).getTime();
-                    return Math.abs(hTime - lastWeekStart.getTime()) < 1000 * 60 * 60 * 24;
-                });
-
-                const hasDirtyTimers = caughtUp.some(t =>
-                    (t.elapsedSeconds || 0) > 0 || (t.type !== 'stopwatch' && t.remainingSeconds < t.totalSeconds)
-                );
-
-                if (!hasLastWeekHistory && hasDirtyTimers) {
-                    // Archive
-                    const snapshotId = crypto.randomUUID();
-                    const snapshotItems = caughtUp.map(t => ({
-                        title: t.title,
-                        type: t.type,
-                        totalSeconds: t.totalSeconds,
-                        completedSeconds: t.type === 'stopwatch' ? (t.elapsedSeconds || 0) : (t.totalSeconds - t.remainingSeconds),
-                        color: t.color
-                    }));
-
-                    await supabase.from('week_history').insert({
-                        id: snapshotId,
-                        user_id: user.id,
-                        week_start: lastWeekISO,
-                        snapshot_json: snapshotItems
-                    });
-
-                    // Reset DB
-                    for (const t of caughtUp) {
-                        await supabase.from('timers').update({
-                            remaining_seconds: t.totalSeconds,
-                            elapsed_seconds: 0,
-                            is_running: false,
-                            last_tick_at: null
-                        }).eq('id', t.id);
-                    }
-
-                    // Reset Local State
-                    setTimers(prev => prev.map(t => ({
-                        ...t,
-                        remainingSeconds: t.totalSeconds,
-                        elapsedSeconds: 0,
-                        lastTickAt: undefined,
-                        isRunning: false
-                    })));
-
-                    setHistory(prev => [{
-                        id: snapshotId,
-                        weekStart: lastWeekISO,
-                        timersSnapshot: snapshotItems
-                    }, ...prev]);
-                }
+                // Archive every week that ended since the last snapshot, gaps included.
+                applyRollover(caughtUp, loadedEntries, loadedHistory, loadedSettings);
             }
         };
 
         fetchRemote();
+    }, [user, applyRollover]);
+
+    // Live sync: merge changes made on other devices. Our own writes echo back here too;
+    // mergeTimer ignores them because their version is not newer than what we hold.
+    useEffect(() => {
+        if (!user) return;
+
+        const filter = `user_id=eq.${user.id}`;
+        const channel = supabase
+            .channel(`weektime-sync-${user.id}`)
+            .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'timers', filter }, payload => {
+                setTimers(prev => mergeTimer(prev, timerFromRow(payload.new as TimerRow)));
+            })
+            .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'timers', filter }, payload => {
+                setTimers(prev => mergeTimer(prev, timerFromRow(payload.new as TimerRow)));
+            })
+            .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'week_history', filter }, payload => {
+                setHistory(prev => mergeHistory(prev, historyFromRow(payload.new as WeekHistoryRow)));
+            })
+            .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'week_history', filter }, payload => {
+                setHistory(prev => mergeHistory(prev, historyFromRow(payload.new as WeekHistoryRow)));
+            })
+            .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'time_entries', filter }, payload => {
+                setEntries(prev => mergeEntry(prev, entryFromRow(payload.new as TimeEntryRow), false));
+            })
+            .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'time_entries', filter }, payload => {
+                setEntries(prev => mergeEntry(prev, entryFromRow(payload.new as TimeEntryRow), true));
+            })
+            // Delete events can't be filtered and only carry the primary key
+            .on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'timers' }, payload => {
+                const { id } = payload.old as Partial<TimerRow>;
+                setTimers(prev => prev.filter(t => t.id !== id));
+                setEntries(prev => prev.filter(e => e.timerId !== id));
+            })
+            .on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'week_history' }, payload => {
+                const { id } = payload.old as Partial<WeekHistoryRow>;
+                setHistory(prev => prev.filter(h => h.id !== id));
+            })
+            .on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'time_entries' }, payload => {
+                const { id } = payload.old as Partial<TimeEntryRow>;
+                setEntries(prev => prev.filter(e => e.id !== id));
+            })
+            .subscribe();
+
+        return () => {
+            supabase.removeChannel(channel);
+        };
     }, [user]);
 
     // Persistence: Save to DB whenever timers change? 
@@ -252,228 +423,445 @@ export const TimerProvider: React.FC<{ children: ReactNode }> = ({ children }) =
         }
     }, [history, user]);
 
+    useEffect(() => {
+        if (!user) {
+            localStorage.setItem(STORAGE_KEY_ENTRIES, JSON.stringify(entries));
+        }
+    }, [entries, user]);
+
+    useEffect(() => {
+        if (!user) {
+            localStorage.setItem(STORAGE_KEY_SETTINGS, JSON.stringify(settings));
+        }
+    }, [settings, user]);
+
+    // The tick loop reads these to close sessions of timers that stopped on their own.
+    useEffect(() => {
+        timersRef.current = timers;
+        entriesRef.current = entries;
+        historyRef.current = history;
+        settingsRef.current = settings;
+    }, [timers, entries, history, settings]);
+
     // Ticking Logic
     useEffect(() => {
         const interval = setInterval(() => {
-            setTimers(currentTimers => {
-                // Optimization: if nothing is running, don't change state (prevents re-renders)
-                if (!currentTimers.some(t => t.isRunning)) return currentTimers;
-
-                const now = Date.now();
-                return currentTimers.map(timer => {
-                    if (timer.isRunning && timer.lastTickAt) {
-                        const deltaMs = now - timer.lastTickAt;
-                        // Only update if at least 1 second passed to simple integer updates
-                        if (deltaMs >= 1000) {
-                            const secondsPassed = Math.floor(deltaMs / 1000);
-
-                            if (timer.type === 'stopwatch') {
-                                return {
-                                    ...timer,
-                                    elapsedSeconds: (timer.elapsedSeconds || 0) + secondsPassed,
-                                    lastTickAt: timer.lastTickAt + (secondsPassed * 1000)
-                                };
-                            } else {
-                                // Goal Type
-                                const newRemaining = timer.remainingSeconds - secondsPassed;
-
-                                if (newRemaining <= 0) {
-                                    return { ...timer, remainingSeconds: 0, isRunning: false, lastTickAt: undefined };
-                                }
-
-                                // Advance lastTickAt by the exact seconds we consumed to preserve ms precision (prevent drift)
-                                return {
-                                    ...timer,
-                                    remainingSeconds: newRemaining,
-                                    lastTickAt: timer.lastTickAt + (secondsPassed * 1000)
-                                };
-                            }
-                        }
-                    }
-                    return timer;
-                });
-            });
+            setTimers(currentTimers => engine.tick(currentTimers));
+
+            const now = engine.now();
+            const weekStart = getWeekStart(new Date(now), settingsRef.current).getTime();
+            const dayStart = getDayStart(new Date(now), settingsRef.current).getTime();
+
+            // The week turned over while the app was open
+            if (currentWeekRef.current !== undefined && weekStart !== currentWeekRef.current) {
+                applyRollover(timersRef.current, entriesRef.current, historyRef.current, settingsRef.current);
+            } else if (currentDayRef.current !== undefined && dayStart !== currentDayRef.current) {
+                // Just the day: daily quotas start over on today's target
+                const derived = timersRef.current.map(t => t.type === 'daily' ? deriveTimer(t, entriesRef.current, settingsRef.current, now) : t);
+                timersRef.current = derived;
+                setTimers(derived);
+            }
+            currentDayRef.current = dayStart;
+
+            // Pomodoros count down here rather than in engine.tick. Moving on to the next
+            // interval is written so other devices follow, and finished work is logged for
+            // the timer it is credited to, once however many devices count it.
+            const cycle = engine.cyclePomodoros(timersRef.current);
+            if (cycle.timers.length > 0) {
+                const cycled = cycle.timers.map(t => cycle.switched.includes(t.id) ? { ...t, ...stamp(now) } : t);
+                timersRef.current = timersRef.current.map(t => cycled.find(c => c.id === t.id) ?? t);
+                setTimers(prev => prev.map(t => cycled.find(c => c.id === t.id) ?? t));
+                enqueue(cycled.filter(t => cycle.switched.includes(t.id)).map(versionedTimerOp));
+                if (cycle.credited.length > 0) logEntriesRef.current([], cycle.credited);
+            }
+
+            const closed = engine.closeStaleSessions(timersRef.current, entriesRef.current, settingsRef.current);
+            if (closed.length > 0) {
+                entriesRef.current = entriesRef.current.map(e => closed.find(c => c.id === e.id) ?? e);
+                setEntries(prev => prev.map(e => closed.find(c => c.id === e.id) ?? e));
+                enqueue(closed.map(closeEntryOp));
+            }
         }, 1000);
 
         return () => clearInterval(interval);
-    }, []);
+    }, [enqueue, applyRollover]);
 
-    const addTimer = async (newTimer: Omit<Timer, 'id' | 'remainingSeconds' | 'isRunning' | 'lastTickAt' | 'elapsedSeconds'>) => {
-        const timer: Timer = {
+    const addTimer = (newTimer: Omit<Timer, 'id' | 'remainingSeconds' | 'isRunning' | 'lastTickAt' | 'elapsedSeconds'>) => {
+        const now = engine.now();
+        // Derived so that a daily quota starts from today's target, reset so that a pomodoro
+        // starts with its first work interval
+        const timer: Timer = deriveTimer(engine.reset({
             ...newTimer,
             id: crypto.randomUUID(),
             remainingSeconds: newTimer.totalSeconds,
             elapsedSeconds: 0,
             isRunning: false,
-        };
+            ...stamp(now),
+        }), [], settings, now);
         setTimers(prev => [...prev, timer]);
 
         if (user) {
-            await supabase.from('timers').insert({
-                id: timer.id,
-                user_id: user.id,
-                title: timer.title,
-                type: timer.type,
-                total_seconds: timer.totalSeconds,
-                remaining_seconds: timer.remainingSeconds,
-                elapsed_seconds: timer.elapsedSeconds,
-                is_running: timer.isRunning,
-                color: timer.color,
-                size: timer.size
-            });
+            enqueue([{ table: 'timers', action: 'insert', id: timer.id, values: timerToRow(timer, user.id) }]);
         }
     };
 
-    const updateTimer = async (id: string, updates: Partial<Timer>) => {
-        setTimers(prev => prev.map(t => t.id === id ? { ...t, ...updates } : t));
+    const updateTimer = (id: string, updates: TimerEdit) => {
+        const timer = timers.find(t => t.id === id);
+        if (!timer) return;
+
+        const now = engine.now();
+        const edited = engine.edit(timer, updates);
+        const nextTimer = {
+            ...(timer.type === 'daily' || edited.type === 'daily' ? deriveTimer(edited, entries, settings, now) : edited),
+            ...stamp(now),
+        };
+        setTimers(prev => prev.map(t => t.id === id ? nextTimer : t));
 
         if (user) {
-            // Map camelCase updates to snake_case for DB
-            const dbUpdates: any = {};
-            if (updates.title !== undefined) dbUpdates.title = updates.title;
-            if (updates.color !== undefined) dbUpdates.color = updates.color;
-            if (updates.size !== undefined) dbUpdates.size = updates.size;
-            if (updates.totalSeconds !== undefined) {
-                dbUpdates.total_seconds = updates.totalSeconds;
-                dbUpdates.remaining_seconds = updates.remainingSeconds; // Usually reset on edit? depends on logic. 
-                // For simplicity, just update what's passed.
-            }
+            // Counters move with the goal, so the edit is written with them as one version
+            const op = versionedTimerOp(nextTimer);
+            enqueue([{ ...op, values: { ...timerDetailsToRow(nextTimer), ...op.values } }]);
+        }
+    };
 
-            if (Object.keys(dbUpdates).length > 0) {
-                await supabase.from('timers').update(dbUpdates).eq('id', id);
-            }
+    // Soft delete: the timer leaves the dashboard but keeps its sessions, so it still counts
+    // towards the weeks it was used in and can be restored.
+    const archiveTimer = (id: string) => {
+        const timer = timers.find(t => t.id === id);
+        if (!timer || timer.archivedAt) return;
+
+        const { timer: archived, ended, credited } = engine.archive(timer, entries);
+        const nextTimer = { ...archived, ...stamp(engine.now()) };
+
+        setTimers(prev => prev.map(t => t.id === id ? nextTimer : t));
+        if (ended) setEntries(prev => prev.map(e => e.id === ended.id ? ended : e));
+
+        if (user) {
+            enqueue([versionedTimerOp(nextTimer), ...(ended ? [closeEntryOp(ended)] : [])]);
+        }
+        if (credited && credited.length > 0) logEntries([], credited);
+    };
+
+    const restoreTimer = (id: string) => {
+        const timer = timers.find(t => t.id === id);
+        if (!timer) return;
+
+        // Counters may be from the week it was archived in
+        const now = engine.now();
+        const nextTimer = { ...deriveTimer({ ...timer, archivedAt: undefined }, entries, settings, now), ...stamp(now) };
+        setTimers(prev => prev.map(t => t.id === id ? nextTimer : t));
+
+        if (user) {
+            enqueue([versionedTimerOp(nextTimer)]);
         }
     };
 
-    const deleteTimer = async (id: string) => {
+    // Permanent: removes the timer and its sessions. Past weeks keep their snapshots.
+    const deleteTimer = (id: string) => {
         setTimers(prev => prev.filter(t => t.id !== id));
+        // Entries go with the timer (on delete cascade in the DB)
+        setEntries(prev => prev.filter(e => e.timerId !== id));
         if (user) {
-            await supabase.from('timers').delete().eq('id', id);
+            enqueue([{ table: 'timers', action: 'delete', id }]);
         }
     };
 
-    const toggleTimer = async (id: string) => {
+    const toggleTimer = (id: string) => {
         const timer = timers.find(t => t.id === id);
         if (!timer) return;
 
-        const now = Date.now();
-        const isStarting = !timer.isRunning;
-        const nextTimer = {
-            ...timer,
-            isRunning: isStarting,
-            lastTickAt: isStarting ? now : undefined
-        };
+        // In focus mode, starting a timer pauses the running ones it competes with. The start
+        // and the pauses share one version and are written in one transaction, so other
+        // devices see the switch at once, and a conflict on any of them undoes all of it
+        // (every timer of the switch is then re-read, see resolveConflict).
+        const rivals = timer.isRunning ? [] : focusRivals(timer, timers, settings.focusMode);
+        const changes = [engine.toggle(timer, entries), ...rivals.map(t => engine.pause(t, entries))];
+        const version = stamp(engine.now());
+        const nextTimers = changes.map(c => ({ ...c.timer, ...version }));
+        const ended = changes.flatMap(c => c.ended ? [c.ended] : []);
+        const started = changes.flatMap(c => c.started ? [c.started] : []);
+
+        setTimers(prev => prev.map(t => nextTimers.find(n => n.id === t.id) ?? t));
+        setEntries(prev => [...prev.map(e => ended.find(x => x.id === e.id) ?? e), ...started]);
+
+        // A plain toggle writes the timer before its sessions: if another device toggled more
+        // recently, the session changes after it are dropped along with it.
+        if (user && rivals.length > 0) {
+            enqueue([switchTimersOp(nextTimers, ended, started, user.id)]);
+        } else if (user) {
+            enqueue(changes.flatMap((c, i) => [
+                versionedTimerOp(nextTimers[i]),
+                ...(c.ended ? [closeEntryOp(c.ended)] : []),
+                ...(c.started ? [insertEntryOp(c.started, user.id)] : []),
+            ]));
+        }
+
+        // A paused pomodoro credits the work of its interval so far. Pomodoros have no focus
+        // rivals, so the timer credited isn't among the changes above.
+        const credited = changes.flatMap(c => c.credited ?? []);
+        if (credited.length > 0) logEntries([], credited);
+    };
 
+    // Pomodoros: end the current interval now and move on to the next
+    const skipInterval = (id: string) => {
+        const timer = timers.find(t => t.id === id);
+        if (!timer || timer.type !== 'pomodoro') return;
+
+        const { timer: skipped, credited } = engine.skip(timer);
+        const nextTimer = { ...skipped, ...stamp(engine.now()) };
         setTimers(prev => prev.map(t => t.id === id ? nextTimer : t));
 
         if (user) {
-            await supabase.from('timers').update({
-                is_running: nextTimer.isRunning,
-                last_tick_at: nextTimer.lastTickAt || null, // Explicit null for DB
-                remaining_seconds: nextTimer.remainingSeconds,
-                elapsed_seconds: nextTimer.elapsedSeconds
-            }).eq('id', id);
+            enqueue([versionedTimerOp(nextTimer)]);
         }
+        if (credited && credited.length > 0) logEntries([], credited);
     };
 
-    const deductTime = async (id: string, seconds: number) => {
+    const deductTime = (id: string, seconds: number) => {
         const timer = timers.find(t => t.id === id);
         if (!timer) return;
 
-        let nextTimer: Timer;
+        const logged = engine.log(timer, seconds);
+        const nextTimer = { ...logged.timer, ...stamp(logged.entry.endedAt!) };
+        const entry = logged.entry;
 
-        if (timer.type === 'stopwatch') {
-            nextTimer = {
-                ...timer,
-                elapsedSeconds: (timer.elapsedSeconds || 0) + seconds,
-            };
-        } else {
-            const newRemaining = Math.max(0, timer.remainingSeconds - seconds);
-            const isFinished = newRemaining <= 0;
-            nextTimer = {
-                ...timer,
-                remainingSeconds: newRemaining,
-                isRunning: isFinished ? false : timer.isRunning,
-                lastTickAt: isFinished ? undefined : timer.lastTickAt
-            };
+        setTimers(prev => prev.map(t => t.id === id ? nextTimer : t));
+        setEntries(prev => [...prev, entry]);
+
+        // The entry goes first so the logged time survives a conflict on the timer row;
+        // resolveConflict rebuilds the counters from the entries, this one included.
+        if (user) {
+            enqueue([insertEntryOp(entry, user.id), versionedTimerOp(nextTimer)]);
         }
+    };
+
+    // Manual sessions at given times, e.g. yesterday's meeting or a CSV import, along with
+    // any timers they belong to that don't exist yet. Time in weeks that have already been
+    // archived updates their snapshots instead of the current counters. Sessions are logged
+    // one after another, each seeing the weeks and counters the ones before it changed.
+    const logEntries = (newTimers: Timer[], sessions: ManualSession[]) => {
+        const now = engine.now();
+        const createdIds = new Set(newTimers.map(t => t.id));
+        // New daily quotas start from today's target, as in addTimer
+        let nextTimers = [...timers, ...newTimers.map(t => ({ ...deriveTimer(t, [], settings, now), ...stamp(now) }))];
+        let nextHistory = history;
+        const added: TimeEntry[] = [];
+        const changedIds = new Set<string>();
+
+        for (const session of sessions) {
+            const timer = nextTimers.find(t => t.id === session.timerId);
+            // A session with a fixed id may already have come in from another device
+            if (!timer || entries.some(e => e.id === session.id)) continue;
+
+            const logged = engine.logRange(timer, session.startedAt, session.endedAt, settings, session.id);
+            const plan = planBackdatedEntry(timer, logged.entry, nextHistory, settings, now);
+            if (logged.timer !== timer) {
+                nextTimers = nextTimers.map(t => t.id === timer.id ? { ...logged.timer, ...stamp(now) } : t);
+                changedIds.add(timer.id);
+            }
+            added.push(logged.entry);
+            nextHistory = [...plan.updatedWeeks, ...plan.newWeeks].reduce(mergeHistory, nextHistory);
+        }
+
+        const created = nextTimers.filter(t => createdIds.has(t.id));
+        const changed = nextTimers.filter(t => changedIds.has(t.id) && !createdIds.has(t.id));
+        const newWeeks = nextHistory.filter(h => !history.some(p => p.id === h.id));
+        const updatedWeeks = nextHistory.filter(h => history.some(p => p.id === h.id && p !== h));
+
+        setTimers(prev => [...prev.map(t => changed.find(c => c.id === t.id) ?? t), ...created]);
+        setEntries(prev => [...prev, ...added]);
+        setHistory(prev => [...updatedWeeks, ...newWeeks].reduce(mergeHistory, prev));
+
+        // Timers before their sessions (foreign key), sessions before counters as in deductTime
+        if (user) {
+            enqueue([
+                ...created.map((t): OutboxOp => ({ table: 'timers', action: 'insert', id: t.id, values: timerToRow(t, user.id) })),
+                ...added.map(e => insertEntryOp(e, user.id)),
+                ...changed.map(versionedTimerOp),
+                ...[...newWeeks, ...updatedWeeks].map(h => weekOp(h, user.id)),
+            ]);
+        }
+    };
+
+    useEffect(() => {
+        logEntriesRef.current = logEntries;
+    });
+
+    const logEntry = (id: string, startedAt: number, endedAt: number) =>
+        logEntries([], [{ timerId: id, startedAt, endedAt }]);
+
+    // Set this week's completed time exactly, e.g. to take back a session left running
+    const correctTime = (id: string, completedSeconds: number, reason: string) => {
+        const timer = timers.find(t => t.id === id);
+        if (!timer) return;
+
+        const corrected = engine.correct(timer, entries, settings, completedSeconds, reason);
+        const nextTimer = { ...corrected.timer, ...stamp(corrected.entry.startedAt) };
+        const entry = corrected.entry;
 
         setTimers(prev => prev.map(t => t.id === id ? nextTimer : t));
+        setEntries(prev => [...prev, entry]);
 
+        // Entry first, as in deductTime
         if (user) {
-            await supabase.from('timers').update({
-                remaining_seconds: nextTimer.remainingSeconds,
-                elapsed_seconds: nextTimer.elapsedSeconds,
-                is_running: nextTimer.isRunning,
-                last_tick_at: nextTimer.lastTickAt || null
-            }).eq('id', id);
+            enqueue([insertEntryOp(entry, user.id), versionedTimerOp(nextTimer)]);
         }
     };
 
-    const resetWeek = async (forcedWeekStart?: string) => {
-        // Prepare snapshot
-        const snapshotId = crypto.randomUUID();
-        // Use forced start if provided (for auto-archiving past weeks), otherwise now
-        const weekStart = forcedWeekStart || new Date().toISOString();
-
-        // We need the CURRENT state of timers to snapshot. 
-        // using 'timers' state directly is safe here as this is triggered by user action.
-        const snapshotItems = timers.map(t => ({
-            title: t.title,
-            type: t.type,
-            totalSeconds: t.totalSeconds,
-            completedSeconds: t.type === 'stopwatch' ? (t.elapsedSeconds || 0) : (t.totalSeconds - t.remainingSeconds),
-            color: t.color
-        }));
-
-        const snapshot: WeekHistory = {
-            id: snapshotId,
-            weekStart,
-            timersSnapshot: snapshotItems
-        };
+    // Time away from the device (see lib/idle.ts) comes out of the sessions that counted it
+    // and so out of their timers' counters. Reassigned, the time cut is logged for another
+    // timer, which may be less than the whole period.
+    const discardIdleTime = (period: IdlePeriod, reassignTo?: string) => {
+        const { ended, started, removed } = cutIdleTime(entries, period);
+        if (ended.length === 0) return;
 
-        setHistory(prev => [snapshot, ...prev]);
+        const now = engine.now();
+        const nextEntries = [...entries.map(e => ended.find(x => x.id === e.id) ?? e), ...started];
+        const version = stamp(now);
+        const changed = timers
+            .filter(t => ended.some(e => e.timerId === t.id))
+            .map(t => ({ ...deriveTimer(t, nextEntries, settings, now), ...version }));
 
-        // Reset timers locally
-        setTimers(prev => prev.map(t => ({
-            ...t,
-            remainingSeconds: t.totalSeconds,
-            elapsedSeconds: 0,
-            isRunning: false,
-            lastTickAt: undefined,
-        })));
+        setTimers(prev => prev.map(t => changed.find(c => c.id === t.id) ?? t));
+        setEntries(prev => [...prev.map(e => ended.find(x => x.id === e.id) ?? e), ...started]);
 
+        // Each timer write before its sessions, as in toggleTimer
         if (user) {
-            // 1. Save History
-            await supabase.from('week_history').insert({
-                id: snapshotId,
-                user_id: user.id,
-                week_start: weekStart,
-                snapshot_json: snapshotItems
-            });
-
-            // 2. Reset all timers in DB
-            // We can do a bulk update or iterate. 
-            // For simplicity/correctness with different totals: 
-            // Ideally we'd run a SQL function, but here we can just update each or update all matching user_id IF they all reset to same logic (they don't, totalSeconds varies).
-            // Actually, we can update is_running=false, elapsed_seconds=0, remaining_seconds=total_seconds.
-            // Supabase supports update with value from another column? "remaining_seconds = total_seconds"?
-            // Not via simple JS SDK syntax easily without RPC.
-            // So we iterate updates or assume small number of timers.
-
-            for (const t of timers) {
-                await supabase.from('timers').update({
-                    remaining_seconds: t.totalSeconds,
-                    elapsed_seconds: 0,
-                    is_running: false,
-                    last_tick_at: null
-                }).eq('id', t.id);
-            }
+            enqueue(changed.flatMap(t => [
+                versionedTimerOp(t),
+                ...ended.filter(e => e.timerId === t.id).map(closeEntryOp),
+                ...started.filter(e => e.timerId === t.id).map(e => insertEntryOp(e, user.id)),
+            ]));
+        }
+        if (reassignTo && removed) logEntries([], [{ timerId: reassignTo, startedAt: removed.from, endedAt: removed.to }]);
+    };
+
+    const activeTimers = timers.filter(t => !t.archivedAt);
+    const archivedTimers = timers.filter(t => t.archivedAt);
+
+    // Start the current week (today for daily quotas, as configured in settings) over. Counters
+    // come from the sessions, so the reset is recorded as a correction per timer back to zero,
+    // after pausing it. Pomodoros go back to their first work interval. Nothing is archived
+    // here: the week's snapshot is taken when it ends, with the reset in it.
+    const resetWeek = () => {
+        const version = stamp(engine.now());
+        const changes = activeTimers.map(t => {
+            if (t.type === 'pomodoro') return { timer: { ...engine.reset(t), ...version } };
+            const paused = t.isRunning ? engine.pause(t, entries) : { timer: t, ended: undefined };
+            const sessions = entries.map(e => e.id === paused.ended?.id ? paused.ended : e);
+            const corrected = engine.correct(paused.timer, sessions, settings, 0, 'Week reset');
+            return {
+                timer: { ...corrected.timer, ...version },
+                ended: paused.ended,
+                correction: corrected.entry.adjustSeconds !== 0 ? corrected.entry : undefined,
+            };
+        });
+        const ended = changes.flatMap(c => c.ended ? [c.ended] : []);
+        const corrections = changes.flatMap(c => c.correction ? [c.correction] : []);
+
+        setTimers(prev => prev.map(t => changes.find(c => c.timer.id === t.id)?.timer ?? t));
+        setEntries(prev => [...prev.map(e => ended.find(x => x.id === e.id) ?? e), ...corrections]);
+
+        // Each timer write before its sessions, as in toggleTimer
+        if (user) {
+            enqueue(changes.flatMap(c => [
+                versionedTimerOp(c.timer),
+                ...(c.ended ? [closeEntryOp(c.ended)] : []),
+                ...(c.correction ? [insertEntryOp(c.correction, user.id)] : []),
+            ]));
+        }
+    };
+
+    const clearGuestStorage = () => {
+        localStorage.removeItem(STORAGE_KEY_TIMERS);
+        localStorage.removeItem(STORAGE_KEY_HISTORY);
+        localStorage.removeItem(STORAGE_KEY_ENTRIES);
+        setGuestData(null);
+    };
+
+    // Add timers, sessions and weeks from elsewhere, skipping the ones already here
+    // (see planGuestMerge). Signed in, they are uploaded to the account.
+    const mergeData = (data: TimerData) => {
+        const plan = planGuestMerge(data, { timers, history, entries });
+        const nextEntries = [...entries, ...plan.entries];
+        const now = engine.now();
+
+        setEntries(nextEntries);
+        setTimers(prev => [
+            ...prev.map(t => plan.touchedTimerIds.includes(t.id) ? deriveTimer(t, nextEntries, settings, now) : t),
+            ...plan.timers.map(t => deriveTimer(t, nextEntries, settings, now)),
+        ]);
+        setHistory(prev => [...plan.updatedWeeks, ...plan.newWeeks].reduce(mergeHistory, prev));
+
+        if (!user) return;
+        // Timers before their sessions (foreign key)
+        enqueue([
+            ...plan.timers.map((t): OutboxOp => ({ table: 'timers', action: 'insert', id: t.id, values: timerToRow(t, user.id) })),
+            ...plan.entries.map(e => insertEntryOp(e, user.id)),
+            ...[...plan.newWeeks, ...plan.updatedWeeks].map(h => weekOp(h, user.id)),
+        ]);
+    };
+
+    // Upload what a guest tracked on this device into the signed-in account
+    const importGuestData = () => {
+        if (!user || !guestData) return;
+        mergeData(guestData);
+        clearGuestStorage();
+    };
+
+    // Bring back a backup (see lib/backup.ts). Merging keeps everything here and adds what
+    // is missing; replacing swaps timers, sessions, weeks and settings for the backup's.
+    // Restored rows get new ids either way.
+    const restoreBackup = (backup: Backup, mode: 'replace' | 'merge') => {
+        const data = rekeyBackup(backup);
+        if (mode === 'merge') {
+            mergeData(data);
+            return;
+        }
+
+        const now = engine.now();
+        const weekStart = getWeekStart(new Date(now), backup.settings).getTime();
+        const version = stamp(now);
+        const nextTimers = data.timers.map(t => ({ ...deriveTimer(t, data.entries, backup.settings, now), ...version }));
+        const nextHistory = data.history.reduce(mergeHistory, [] as WeekHistory[]);
+
+        // The backup's weeks are archived as they are; don't archive anything for the switch
+        currentWeekRef.current = weekStart;
+        setSettings(backup.settings);
+        setTimers(nextTimers);
+        setEntries(data.entries);
+        setHistory(nextHistory);
+
+        if (!user) return;
+        // Everything is deleted first (sessions go with their timers). The backup's weeks are
+        // upserts on their start, so a week that is still stored, e.g. archived again by
+        // another device in the meantime, is replaced rather than skipped as a duplicate.
+        enqueue([
+            ...timers.map((t): OutboxOp => ({ table: 'timers', action: 'delete', id: t.id })),
+            ...history.map((h): OutboxOp => ({ table: 'week_history', action: 'delete', id: h.id })),
+            { table: 'user_settings', action: 'upsert', id: user.id, values: settingsToRow(backup.settings, user.id) },
+            ...nextTimers.map((t): OutboxOp => ({ table: 'timers', action: 'insert', id: t.id, values: timerToRow(t, user.id) })),
+            ...data.entries.map(e => insertEntryOp(e, user.id)),
+            ...nextHistory.map(h => weekOp(h, user.id)),
+        ]);
+    };
+
+    // Moving the week boundary changes which sessions count as "this week"
+    const updateSettings = (next: UserSettings) => {
+        const now = engine.now();
+        const weekStart = getWeekStart(new Date(now), next).getTime();
+        // A moved boundary is not a week ending, so don't archive anything for it
+        currentWeekRef.current = weekStart;
+        setSettings(next);
+        setTimers(prev => prev.map(t => deriveTimer(t, entries, next, now)));
+
+        if (user) {
+            enqueue([{ table: 'user_settings', action: 'upsert', id: user.id, values: settingsToRow(next, user.id) }]);
         }
     };
 
     return (
-        <TimerContext.Provider value={{ timers, history, addTimer, updateTimer, deleteTimer, toggleTimer, deductTime, resetWeek }}>
+        <TimerContext.Provider value={{ timers: activeTimers, archivedTimers, history, entries, settings, pendingWrites, failedWrites, dismissFailedWrites, updateSettings, guestData, importGuestData, discardGuestData: clearGuestStorage, restoreBackup, addTimer, updateTimer, archiveTimer, restoreTimer, deleteTimer, toggleTimer, deductTime, logEntry, logEntries, correctTime, skipInterval, discardIdleTime, resetWeek }}>
             {children}
         </TimerContext.Provider>
     );
@@ -0,0 +1,47 @@
+import { useEffect, useState } from 'react';
+import { SLEEP_GAP_MS } from '../lib/idle';
+import type { IdlePeriod } from '../lib/idle';
+
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart'] as const;
+
+// The latest time away from this device longer than `idleMs` (0 = never): no input with the
+// tab open, the tab hidden, or the device asleep, which shows as the clock jumping between
+// two checks. Reported once the user is back, until cleared.
+export const useIdle = (idleMs: number): [IdlePeriod | null, () => void] => {
+    const [away, setAway] = useState<IdlePeriod | null>(null);
+
+    useEffect(() => {
+        if (idleMs <= 0) return;
+        let lastActive = Date.now();
+        let lastCheck = Date.now();
+
+        const back = () => {
+            const now = Date.now();
+            if (now - lastActive >= idleMs) setAway({ from: lastActive, to: now });
+            lastActive = now;
+        };
+
+        // Hiding the tab is the last sign of the user until it shows again
+        const onVisibility = () => {
+            if (document.hidden) lastActive = Date.now();
+            else back();
+        };
+
+        // Waking up counts as being back, even before any input
+        const check = setInterval(() => {
+            const now = Date.now();
+            if (now - lastCheck > SLEEP_GAP_MS && !document.hidden) back();
+            lastCheck = now;
+        }, 5000);
+
+        ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, back, { passive: true }));
+        document.addEventListener('visibilitychange', onVisibility);
+        return () => {
+            clearInterval(check);
+            ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, back));
+            document.removeEventListener('visibilitychange', onVisibility);
+        };
+    }, [idleMs]);
+
+    return [away, () => setAway(null)];
+};
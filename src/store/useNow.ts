@@ -0,0 +1,14 @@
+import { useEffect, useState } from 'react';
+
+// The current time, refreshed every `intervalMs`, for displays that depend on the time of
+// day rather than on timer state.
+export const useNow = (intervalMs: number) => {
+    const [now, setNow] = useState(() => Date.now());
+
+    useEffect(() => {
+        const id = setInterval(() => setNow(Date.now()), intervalMs);
+        return () => clearInterval(id);
+    }, [intervalMs]);
+
+    return now;
+};
@@ -0,0 +1,109 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { readOutbox, retryDelay, runOp, updateOutbox } from '../lib/outbox';
+import type { OutboxOp } from '../lib/outbox';
+
+const RETRY_INTERVAL_MS = 5000;
+
+const countFor = (userId: string | undefined) =>
+    userId ? readOutbox().filter(b => b.userId === userId).length : 0;
+
+const timerIdsOf = (ops: OutboxOp[]) =>
+    [...new Set(ops.filter(op => op.table === 'timers').flatMap(op => [op.id, ...(op.ids ?? [])]))];
+
+// `onConflict` gets every timer the conflicting batch writes, those already written included.
+// The rest of the batch is dropped once it returns true; false (e.g. the stored rows couldn't
+// be read) keeps the batch to try again.
+export const useOutbox = (userId: string | undefined, onConflict: (timerIds: string[]) => Promise<boolean>) => {
+    const [pending, setPending] = useState(() => countFor(userId));
+    // Writes the server rejected since the last time they were dismissed
+    const [failed, setFailed] = useState(0);
+    const draining = useRef(false);
+    const onConflictRef = useRef(onConflict);
+
+    useEffect(() => {
+        onConflictRef.current = onConflict;
+    });
+
+    const drain = useCallback(async () => {
+        if (!userId || draining.current) return;
+        draining.current = true;
+
+        try {
+            // Strictly in order: if the head batch is waiting to retry, everything waits.
+            for (;;) {
+                const batch = readOutbox().find(b => b.userId === userId);
+                if (!batch || batch.nextAttemptAt > Date.now()) break;
+
+                let ops = batch.ops;
+                let retry = false;
+                while (ops.length > 0) {
+                    const op = ops[0];
+                    const result = await runOp(op);
+                    if (result === 'retry') {
+                        retry = true;
+                        break;
+                    }
+                    if (result === 'conflict') {
+                        if (!await onConflictRef.current(batch.timerIds ?? timerIdsOf(ops))) {
+                            retry = true;
+                            break;
+                        }
+                        ops = [];
+                        break;
+                    }
+                    if (result === 'failed') {
+                        // Rejected by the server (e.g. constraint or policy); retrying won't help.
+                        // This device keeps the change, so the user is told it isn't saved.
+                        setFailed(n => n + 1);
+                    }
+                    ops = ops.slice(1);
+                    // Record progress so a reload doesn't replay ops that already landed
+                    const remaining = ops;
+                    updateOutbox(all => all.map(b => b.id === batch.id ? { ...b, ops: remaining } : b));
+                }
+
+                if (retry) {
+                    updateOutbox(all => all.map(b => b.id === batch.id
+                        ? { ...b, attempts: b.attempts + 1, nextAttemptAt: Date.now() + retryDelay(b.attempts) }
+                        : b));
+                    break;
+                }
+
+                updateOutbox(all => all.filter(b => b.id !== batch.id));
+                setPending(countFor(userId));
+            }
+        } finally {
+            draining.current = false;
+            setPending(countFor(userId));
+        }
+    }, [userId]);
+
+    const enqueue = useCallback((ops: OutboxOp[]) => {
+        if (!userId || ops.length === 0) return;
+        updateOutbox(all => [...all, { id: crypto.randomUUID(), userId, ops, timerIds: timerIdsOf(ops), attempts: 0, nextAttemptAt: 0 }]);
+        setPending(countFor(userId));
+        drain();
+    }, [userId, drain]);
+
+    useEffect(() => {
+        if (!userId) return;
+
+        // Coming back online skips whatever backoff was pending
+        const handleOnline = () => {
+            updateOutbox(all => all.map(b => b.userId === userId ? { ...b, nextAttemptAt: 0 } : b));
+            drain();
+        };
+
+        drain();
+        window.addEventListener('online', handleOnline);
+        const interval = setInterval(drain, RETRY_INTERVAL_MS);
+        return () => {
+            window.removeEventListener('online', handleOnline);
+            clearInterval(interval);
+        };
+    }, [userId, drain]);
+
+    const dismissFailed = useCallback(() => setFailed(0), []);
+
+    return { pending: userId ? pending : 0, failed: userId ? failed : 0, dismissFailed, enqueue };
+};
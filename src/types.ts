@@ -1,27 +1,99 @@
 export type TimerSize = 'small' | 'medium' | 'large';
-export type TimerType = 'goal' | 'stopwatch';
+export type TimerType = 'goal' | 'stopwatch' | 'daily' | 'pomodoro';
+export type PomodoroPhase = 'work' | 'break' | 'longBreak';
+
+// Interval lengths of a pomodoro timer and the timer its work is credited to
+export interface PomodoroConfig {
+  targetId: string;
+  workSeconds: number;
+  breakSeconds: number;
+  longBreakSeconds: number;
+  longBreakEvery: number;   // Work intervals per long break
+}
 
 export interface Timer {
   id: string;
   type: TimerType;
   title: string;
-  totalSeconds: number;     // For goal: target. For stopwatch: 0 (or ignored).
-  remainingSeconds: number; // For goal: counts down. For stopwatch: ignored.
-  elapsedSeconds: number;   // For stopwatch: counts up.
+  totalSeconds: number;     // For goal: target. For daily: target per work day. For stopwatch and pomodoro: 0 (or ignored).
+  remainingSeconds: number; // For goal: counts down. For daily: what is left of today's target. For pomodoro: what is left of the interval. For stopwatch: ignored.
+  elapsedSeconds: number;   // For stopwatch: counts up. For daily: today's time.
   isRunning: boolean;
   color: string;
   size: TimerSize;
   lastTickAt?: number;
+  updatedAt?: number;       // Version stamp of the last write (ms), see lib/sync.ts.
+  updatedBy?: string;       // Device that made that write.
+  archivedAt?: number;      // Set when deleted from the dashboard; archived timers can be restored.
+  overtime?: boolean;       // Goal keeps running once met; remainingSeconds then goes negative by the surplus.
+  workDays?: number[];      // Weekdays (0 = Sunday) a goal is meant to be worked on (for pacing) or a daily quota applies on; all if unset.
+  pomodoro?: PomodoroConfig; // Pomodoro timers only, like the fields below (see lib/pomodoro.ts).
+  phase?: PomodoroPhase;    // Current interval, 'work' if unset.
+  cycles?: number;          // Work intervals finished.
+  workFrom?: number;        // Start of work not yet credited, while a work interval runs.
+}
+
+// Fields the timer form can change
+export type TimerEdit = Partial<Pick<Timer, 'title' | 'type' | 'totalSeconds' | 'color' | 'size' | 'overtime' | 'workDays' | 'pomodoro'>>;
+
+// One day of a daily quota
+export interface DayResult {
+  targetSeconds: number;    // 0 on days the quota doesn't apply
+  completedSeconds: number;
 }
 
 export interface WeekHistory {
   id: string;
   weekStart: string;
   timersSnapshot: {
+    timerId?: string;       // Missing from snapshots archived before timers were recorded by id
     title: string;
     type: TimerType;
-    totalSeconds: number;
+    totalSeconds: number;   // Daily quotas: the week's targets added up
     completedSeconds: number;
     color: string;
+    days?: DayResult[];     // Daily quotas: each day of the week, first day first
   }[];
 }
+
+export type TimeEntrySource = 'live' | 'manual' | 'correction';
+
+export interface TimeEntry {
+  id: string;
+  timerId: string;
+  startedAt: number;  // ms timestamp, same clock as lastTickAt.
+  endedAt?: number;   // Undefined while the session is still running.
+  source: TimeEntrySource;
+  adjustSeconds?: number;  // Corrections: signed seconds added at startedAt instead of a time span.
+  reason?: string;         // Corrections: why the time was changed.
+}
+
+// A finished session logged by hand
+export interface ManualSession {
+  id?: string;      // Fixed for time several devices may log, so it's only logged once
+  timerId: string;
+  startedAt: number;
+  endedAt: number;
+}
+
+// Which running timers starting another one pauses: none, all of them, or those in the
+// same dashboard section (goals and daily quotas, or time tracking). Pomodoros don't take
+// part: they credit another timer without running it.
+export type FocusMode = 'off' | 'all' | 'section';
+
+// What to be notified about while timers run (see lib/notifications.ts)
+export interface NotificationPrefs {
+  goalReached: boolean;      // A goal or today's quota is met
+  milestones: number[];      // Percentages of a goal to announce on the way, e.g. [50, 75]
+  runningOverHours?: number; // Remind when a session has been running this long; off if unset
+  sound: boolean;
+}
+
+export interface UserSettings {
+  weekStartDay: number;  // 0 = Sunday ... 6 = Saturday
+  timezone: string;      // IANA name, e.g. 'Europe/Berlin'
+  rolloverHour: number;  // 0-23, hour of the start day (in `timezone`) the week turns over
+  focusMode?: FocusMode; // 'off' if unset
+  notifications?: NotificationPrefs; // DEFAULT_NOTIFICATIONS if unset
+  idleMinutes?: number;  // Ask about time away longer than this; DEFAULT_IDLE_MINUTES if unset, 0 = never
+}